@@ -35,6 +35,24 @@ await build({
   logLevel: 'info',
 });
 
+// Mock gateway for integration tests and offline development
+// (`npm run mock-server`). Not loaded by the plugin itself.
+await build({
+  entryPoints: ['.tsc-out/mock-server.js'],
+  bundle: true,
+  platform: 'node',
+  format: 'esm',
+  target: 'node18',
+  outfile: 'dist/mock-server.js',
+  // ws is CommonJS and requires node builtins at runtime
+  banner: { js: "import { createRequire } from 'module'; const require = createRequire(import.meta.url);" },
+  define: {
+    'process.env.WS_NO_BUFFER_UTIL': '"1"',
+    'process.env.WS_NO_UTF_8_VALIDATE': '"1"',
+  },
+  logLevel: 'info',
+});
+
 // Copy .d.ts files from .tsc-out/ to dist/ for TypeScript consumers
 copyDtsRecursive('.tsc-out', 'dist');
 
@@ -0,0 +1,29 @@
+// Regenerate src/config-schema.generated.ts from the zod schema in
+// src/config-schema.ts, so the JSON schema the plugin advertises can never
+// drift from the one it validates with. Run by `npm run build`.
+import { build } from 'esbuild';
+import { writeFileSync } from 'fs';
+
+const OUT_FILE = 'src/config-schema.generated.ts';
+
+// config-schema.ts is TypeScript; bundle it in memory and import the result
+const bundled = await build({
+  entryPoints: ['src/config-schema.ts'],
+  bundle: true,
+  platform: 'node',
+  format: 'esm',
+  write: false,
+  logLevel: 'warning',
+});
+const source = Buffer.from(bundled.outputFiles[0].contents).toString('base64');
+const { buildConfigJsonSchema } = await import(`data:text/javascript;base64,${source}`);
+
+writeFileSync(
+  OUT_FILE,
+  `// Generated by scripts/generate-config-schema.mjs from src/config-schema.ts — do not edit.
+// Run \`npm run generate:config-schema\` after changing the zod schema.
+
+export const CONFIG_JSON_SCHEMA: Record<string, unknown> = ${JSON.stringify(buildConfigJsonSchema(), null, 2)};
+`,
+);
+console.log(`Wrote ${OUT_FILE}`);
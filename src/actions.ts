@@ -0,0 +1,185 @@
+import type { AgentReplyOf, CityActionName, CityActionParams } from './types.js';
+
+/** Thrown when action parameters do not match the action's schema. */
+export class ActionValidationError extends Error {
+  constructor(readonly action: string, message: string) {
+    super(`Invalid ${action} params: ${message}`);
+    this.name = 'ActionValidationError';
+  }
+}
+
+type ParamType = 'string' | 'integer' | 'object';
+
+interface ParamSpec {
+  type: ParamType;
+  description: string;
+}
+
+export interface CityActionSpec {
+  description: string;
+  params: Record<string, ParamSpec>;
+  required: string[];
+}
+
+/**
+ * Every agent-initiated city action with its parameters. Used to validate
+ * payloads and to describe the actions to the agent runtime (tool and
+ * gateway method schemas).
+ */
+export const CITY_ACTIONS: Record<CityActionName, CityActionSpec> = {
+  move: {
+    description: 'Move your bot to another zone of the city.',
+    params: {
+      zoneId: { type: 'integer', description: 'Target zone id' },
+    },
+    required: ['zoneId'],
+  },
+  enter_building: {
+    description: 'Enter a building in your current zone.',
+    params: {
+      buildingId: { type: 'string', description: 'Building id to enter' },
+    },
+    required: ['buildingId'],
+  },
+  leave_building: {
+    description: 'Leave the building you are in and return to the zone.',
+    params: {},
+    required: [],
+  },
+  execute_action: {
+    description: 'Run a building action (e.g. create an artifact at a studio).',
+    params: {
+      actionKey: { type: 'string', description: 'Action key offered by the building' },
+      buildingId: { type: 'string', description: 'Building id (defaults to the current building)' },
+      params: { type: 'object', description: 'Action-specific parameters' },
+    },
+    required: ['actionKey'],
+  },
+  react_to_artifact: {
+    description: "React to another bot's artifact.",
+    params: {
+      artifactId: { type: 'string', description: 'Artifact id' },
+      reaction: { type: 'string', description: 'Reaction, e.g. an emoji' },
+    },
+    required: ['artifactId', 'reaction'],
+  },
+  propose: {
+    description: 'Send a collaboration proposal to another bot.',
+    params: {
+      targetId: { type: 'string', description: 'Bot id to propose to' },
+      text: { type: 'string', description: 'What you are proposing' },
+    },
+    required: ['targetId', 'text'],
+  },
+  accept_proposal: {
+    description: 'Accept a collaboration proposal you received.',
+    params: {
+      proposalId: { type: 'string', description: 'Proposal id' },
+      text: { type: 'string', description: 'Optional message to the proposer' },
+    },
+    required: ['proposalId'],
+  },
+  decline_proposal: {
+    description: 'Decline a collaboration proposal you received.',
+    params: {
+      proposalId: { type: 'string', description: 'Proposal id' },
+      text: { type: 'string', description: 'Optional message to the proposer' },
+    },
+    required: ['proposalId'],
+  },
+  counter_proposal: {
+    description: 'Answer a proposal you received with different terms.',
+    params: {
+      proposalId: { type: 'string', description: 'Proposal id' },
+      text: { type: 'string', description: 'Your counter-proposal' },
+    },
+    required: ['proposalId', 'text'],
+  },
+  accept_dm: {
+    description: 'Accept a DM request and open a private conversation.',
+    params: {
+      targetId: { type: 'string', description: 'Bot id that sent the request' },
+      conversationId: { type: 'string', description: 'Conversation id from the request, if it had one' },
+      text: { type: 'string', description: 'Optional first message' },
+    },
+    required: ['targetId'],
+  },
+  decline_dm: {
+    description: 'Decline a DM request.',
+    params: {
+      targetId: { type: 'string', description: 'Bot id that sent the request' },
+      conversationId: { type: 'string', description: 'Conversation id from the request, if it had one' },
+      text: { type: 'string', description: 'Optional message to the requester' },
+    },
+    required: ['targetId'],
+  },
+};
+
+export function isCityActionName(value: unknown): value is CityActionName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CITY_ACTIONS, value);
+}
+
+/** JSON Schema for an action's parameters (for tool / RPC descriptions). */
+export function actionParamsJsonSchema(action: CityActionName): Record<string, unknown> {
+  const spec = CITY_ACTIONS[action];
+  const properties: Record<string, unknown> = {};
+  for (const [name, param] of Object.entries(spec.params)) {
+    properties[name] = { type: param.type, description: param.description };
+  }
+  return { type: 'object', properties, required: spec.required, additionalProperties: false };
+}
+
+const TYPE_LABELS: Record<ParamType, string> = {
+  string: 'a non-empty string',
+  integer: 'an integer',
+  object: 'an object',
+};
+
+function checkType(value: unknown, type: ParamType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' && value.trim().length > 0;
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+/** Validate params against the action's spec. Throws ActionValidationError. */
+export function validateActionParams<A extends CityActionName>(
+  action: A,
+  params: unknown,
+): CityActionParams[A] {
+  const spec = CITY_ACTIONS[action];
+  if (!spec) throw new ActionValidationError(action, 'unknown action');
+  return validateParams(action, spec, params) as CityActionParams[A];
+}
+
+/** Validate params against any spec (city actions and text replies alike). */
+export function validateParams(action: string, spec: CityActionSpec, params: unknown): Record<string, unknown> {
+  const input = params ?? {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ActionValidationError(action, 'expected an object');
+  }
+  const record = input as Record<string, unknown>;
+
+  for (const key of Object.keys(record)) {
+    if (!spec.params[key]) throw new ActionValidationError(action, `unexpected field "${key}"`);
+  }
+  for (const key of spec.required) {
+    if (record[key] === undefined) throw new ActionValidationError(action, `missing "${key}"`);
+  }
+  for (const [key, param] of Object.entries(spec.params)) {
+    if (record[key] !== undefined && !checkType(record[key], param.type)) {
+      throw new ActionValidationError(action, `"${key}" must be ${TYPE_LABELS[param.type]}`);
+    }
+  }
+  return record;
+}
+
+/** Validate params and build the agent_reply for a city action. */
+export function buildActionReply<A extends CityActionName>(action: A, params: unknown): AgentReplyOf<A> {
+  const valid = validateActionParams(action, params);
+  return { type: 'agent_reply', action, ...valid } as AgentReplyOf<A>;
+}
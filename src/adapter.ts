@@ -1,21 +1,75 @@
 import WebSocket from 'ws';
+import { randomUUID } from 'crypto';
 import type {
   CityEvent,
   AgentReply,
+  AgentReplyAction,
+  ActionResultFrame,
+  CityActionName,
+  CityActionParams,
+  MoveParams,
+  EnterBuildingParams,
+  ExecuteActionParams,
+  ReactToArtifactParams,
+  ProposeParams,
+  AcceptProposalParams,
+  DeclineProposalParams,
+  CounterProposalParams,
+  AcceptDmParams,
+  DeclineDmParams,
   ServerFrame,
   WelcomeFrame,
+  UnknownFrame,
   ErrorFrame,
   OpenClawCityAccountConfig,
   MessageEnvelope,
+  EventRule,
 } from './types.js';
 import { ConnectionState } from './types.js';
-import { normalize } from './normalizer.js';
+import {
+  normalize,
+  formatEventText,
+  normalizePendingItems,
+  pendingItemToEvent,
+  buildPendingSummaryEvent,
+  buildWelcomeEvent,
+} from './normalizer.js';
+import { buildActionReply } from './actions.js';
+import { serializeReply } from './outbound.js';
+import type { CursorStore } from './cursor-store.js';
+import type { DeadLetterEntry, DeadLetterStore } from './dead-letter.js';
+import { OutboundQueue } from './outbound-queue.js';
+import { AckWatermark, KeyedScheduler, eventOrderingKey } from './event-scheduler.js';
+import { matchEventRule, resolveRouteOverride } from './event-rules.js';
+import { DIGEST_BYPASS_TYPES, DigestBuffer, buildDigestEvent } from './digest.js';
+import { compileEventTemplates } from './templates.js';
+import { TypeSightings } from './event-handlers.js';
+import { validatePendingEvent, validateServerFrame } from './frame-schema.js';
+import type { FrameParseResult, InvalidFrame } from './frame-schema.js';
+import type { CompatibilityReport, EventHandlerRegistry } from './event-handlers.js';
+import type { EventTemplates } from './templates.js';
+import type { DropReason, OverflowPolicy } from './outbound-queue.js';
 
-const PROTOCOL_VERSION = 1;
+/** Protocol versions this client speaks. Negotiation picks the highest shared one. */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
 const DEFAULT_GATEWAY_URL = 'wss://api.openbotcity.com/agent-channel';
 const DEFAULT_RECONNECT_BASE_MS = 3000;
 const DEFAULT_RECONNECT_MAX_MS = 300_000;
 const DEFAULT_PING_INTERVAL_MS = 15_000;
+const DEFAULT_ACTION_TIMEOUT_MS = 15_000;
+const DEFAULT_OUTBOUND_QUEUE_SIZE = 100;
+const DEFAULT_OUTBOUND_QUEUE_TTL_MS = 60_000;
+const DEFAULT_OUTBOUND_QUEUE_OVERFLOW: OverflowPolicy = 'drop-oldest';
+const DEFAULT_DISPATCH_RETRIES = 2;
+const DEFAULT_DISPATCH_RETRY_BASE_MS = 1000;
+const DEFAULT_MAX_CONCURRENT_DISPATCHES = 4;
+const DEFAULT_RESUME_DRAIN_INTERVAL_MS = 1000;
+const DEFAULT_PAUSED_BACKLOG_SIZE = 500;
+// A server that keeps rejecting fresh tokens would otherwise loop forever
+const MAX_CONSECUTIVE_TOKEN_REFRESHES = 3;
+
+// Outbound actions that are held (or rejected) while the owner has paused the bot
+const PAUSE_GATED_ACTIONS: ReadonlySet<AgentReplyAction> = new Set(['speak', 'move']);
 
 export interface AdapterOptions {
   config: OpenClawCityAccountConfig;
@@ -23,6 +77,33 @@ export interface AdapterOptions {
   onWelcome?: (welcome: WelcomeFrame) => void;
   onError?: (error: ErrorFrame) => void;
   onStateChange?: (state: ConnectionState) => void;
+  /**
+   * Exchanges an expired token for a fresh one. Without it, token_expired
+   * stops the adapter.
+   */
+  refreshToken?: (expiredToken: string) => Promise<string>;
+  /** Called after a successful refresh, before reconnecting with the new token. */
+  onTokenRefreshed?: (token: string) => void | Promise<void>;
+  /** Called when the adapter stops itself on an unrecoverable error. */
+  onFatalError?: (message: string) => void;
+  /** Override the protocol versions offered to the server (highest preferred). */
+  protocolVersions?: readonly number[];
+  /** Persists lastAckSeq across restarts. Without one the cursor is memory-only. */
+  cursorStore?: CursorStore;
+  /** Receives events whose dispatch failed after all retries (dead-letter policy). */
+  deadLetterStore?: DeadLetterStore;
+  /** Called whenever a queued outbound reply is dropped (expired or overflow). */
+  onOutboundDrop?: (reply: AgentReply, reason: DropReason, totalDropped: number) => void;
+  /** Called when the owner pauses or resumes the bot (welcome, paused, resumed). */
+  onPauseChange?: (paused: boolean, message?: string) => void;
+  /** Called for every agent_reply the server confirms with success=true. */
+  onActionSucceeded?: (action: AgentReplyAction, result: ActionResultFrame, reply: AgentReply) => void;
+  /** Handlers for city_event subtypes, consulted before the account's templates. */
+  eventHandlers?: EventHandlerRegistry;
+  /** Called with every server frame of a type this client does not handle. */
+  onUnknownFrame?: (frame: UnknownFrame) => void;
+  /** Called whenever an inbound frame fails validation and is dropped (the adapter logs it). */
+  onInvalidFrame?: (invalid: InvalidFrame, totalInvalid: number) => void;
   logger?: {
     info?: (...args: unknown[]) => void;
     warn?: (...args: unknown[]) => void;
@@ -32,6 +113,43 @@ export interface AdapterOptions {
   signal?: AbortSignal;
 }
 
+/** Highest version both sides support, or null when there is none. */
+export function negotiateVersion(client: readonly number[], server: readonly number[]): number | null {
+  const shared = client.filter((v) => server.includes(v));
+  return shared.length ? Math.max(...shared) : null;
+}
+
+/** Rejection reason when the server reports success=false for an agent_reply. */
+export class ActionFailedError extends Error {
+  constructor(
+    readonly action: AgentReplyAction,
+    readonly result: ActionResultFrame,
+  ) {
+    super(`Action ${action} failed: ${result.error ?? 'unknown error'}`);
+    this.name = 'ActionFailedError';
+  }
+}
+
+interface ReplyWaiter {
+  resolve: (result: ActionResultFrame) => void;
+  reject: (err: Error) => void;
+  timeoutMs: number;
+}
+
+interface QueuedReply {
+  reply: AgentReply;
+  waiter?: ReplyWaiter;
+}
+
+interface PendingAction {
+  action: AgentReplyAction;
+  reply: AgentReply;
+  // Absent for fire-and-forget sendReply() — the entry only keeps FIFO order
+  resolve?: (result: ActionResultFrame) => void;
+  reject?: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 export class OpenClawCityAdapter {
   private ws: WebSocket | null = null;
   private state = ConnectionState.DISCONNECTED;
@@ -39,7 +157,40 @@ export class OpenClawCityAdapter {
   private attemptCount = 0;
   private stopped = false;
   private paused = false;
+  private pauseMessage: string | undefined;
   private reconnecting = false;
+  private cursorLoaded = false;
+  private protocolVersion: number;
+  private refreshing = false;
+  // Refreshes since the last welcome
+  private tokenRefreshCount = 0;
+
+  // agent_replies awaiting an action_result, in send order (Map keeps
+  // insertion order, which is the FIFO fallback when the server does not
+  // echo requestId)
+  private pendingActions = new Map<string, PendingAction>();
+
+  // Serializes events per conversation/sender; lastAckSeq follows the
+  // watermark so it only advances over contiguous completed seqs
+  private readonly scheduler: KeyedScheduler;
+  private readonly watermark = new AckWatermark();
+
+  // Replies produced while the socket is down, flushed after the next welcome
+  private readonly outboundQueue: OutboundQueue<QueuedReply>;
+
+  // While paused: non-owner events wait here un-acked (keyed by seq, in
+  // arrival order) and speak/move replies wait in heldReplies. Both drain
+  // on resume. The server sends its own backlog right after `resumed`, so
+  // events keep joining the paced drain until it runs dry.
+  private readonly pausedBacklog = new Map<number, CityEvent>();
+  private readonly heldReplies: OutboundQueue<QueuedReply>;
+  private drainTimer: ReturnType<typeof setTimeout> | null = null;
+  private resumeDraining = false;
+
+  // Ids of welcome pending_items already handed to the agent — the server
+  // repeats them on every welcome until they are read, and ids it stops
+  // listing are dropped
+  private readonly seenPendingItems = new Set<string>();
 
   private pingInterval: ReturnType<typeof setInterval> | null = null;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
@@ -53,14 +204,43 @@ export class OpenClawCityAdapter {
 
   private readonly gatewayUrl: string;
   private readonly botId: string;
-  private readonly token: string;
+  private token: string;
   private readonly reconnectBaseMs: number;
   private readonly reconnectMaxMs: number;
   private readonly pingIntervalMs: number;
+  private readonly handshake: 'query' | 'frame';
+  private readonly protocolVersions: readonly number[];
+  private readonly onFatalError: AdapterOptions['onFatalError'];
+  private readonly refreshToken: AdapterOptions['refreshToken'];
+  private readonly onTokenRefreshed: AdapterOptions['onTokenRefreshed'];
+  private readonly actionTimeoutMs: number;
   private readonly onMessage: AdapterOptions['onMessage'];
   private readonly onWelcome: AdapterOptions['onWelcome'];
   private readonly onError: AdapterOptions['onError'];
   private readonly onStateChange: AdapterOptions['onStateChange'];
+  private readonly cursorStore: CursorStore | undefined;
+  private readonly deadLetterStore: DeadLetterStore | undefined;
+  private readonly dispatchRetries: number;
+  private readonly dispatchRetryBaseMs: number;
+  private readonly dispatchFailurePolicy: 'dead-letter' | 'replay';
+  private readonly pausedReplies: 'hold' | 'reject';
+  private readonly resumeDrainIntervalMs: number;
+  private readonly pausedBacklogSize: number;
+  private readonly pendingItemsMode: 'summary' | 'events' | 'off';
+  private readonly welcomeTurn: 'off' | 'first' | 'always';
+  private readonly eventRules: readonly EventRule[];
+  private readonly digestEventTypes: ReadonlySet<string>;
+  private readonly eventTemplates: EventTemplates;
+  private readonly eventHandlers: EventHandlerRegistry | undefined;
+  private readonly unknownEventTypes = new TypeSightings();
+  private readonly unknownFrameTypes = new TypeSightings();
+  private readonly onUnknownFrame: AdapterOptions['onUnknownFrame'];
+  private readonly onInvalidFrame: AdapterOptions['onInvalidFrame'];
+  private invalidFrames = 0;
+  private readonly digest: DigestBuffer;
+  private welcomeTurnSent = false;
+  private readonly onPauseChange: AdapterOptions['onPauseChange'];
+  private readonly onActionSucceeded: AdapterOptions['onActionSucceeded'];
   private readonly logger: NonNullable<AdapterOptions['logger']>;
 
   constructor(opts: AdapterOptions) {
@@ -70,10 +250,67 @@ export class OpenClawCityAdapter {
     this.reconnectBaseMs = opts.config.reconnectBaseMs ?? DEFAULT_RECONNECT_BASE_MS;
     this.reconnectMaxMs = opts.config.reconnectMaxMs ?? DEFAULT_RECONNECT_MAX_MS;
     this.pingIntervalMs = opts.config.pingIntervalMs ?? DEFAULT_PING_INTERVAL_MS;
+    this.handshake = opts.config.handshake ?? 'query';
+    this.protocolVersions = opts.protocolVersions ?? SUPPORTED_PROTOCOL_VERSIONS;
+    this.protocolVersion = Math.max(...this.protocolVersions);
+    this.onFatalError = opts.onFatalError;
+    this.refreshToken = opts.refreshToken;
+    this.onTokenRefreshed = opts.onTokenRefreshed;
+    this.actionTimeoutMs = opts.config.actionTimeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS;
     this.onMessage = opts.onMessage;
     this.onWelcome = opts.onWelcome;
     this.onError = opts.onError;
     this.onStateChange = opts.onStateChange;
+    this.cursorStore = opts.cursorStore;
+    this.deadLetterStore = opts.deadLetterStore;
+    this.dispatchRetries = opts.config.dispatchRetries ?? DEFAULT_DISPATCH_RETRIES;
+    this.dispatchRetryBaseMs = opts.config.dispatchRetryBaseMs ?? DEFAULT_DISPATCH_RETRY_BASE_MS;
+    this.dispatchFailurePolicy = opts.config.dispatchFailurePolicy ?? 'dead-letter';
+    this.pausedReplies = opts.config.pausedReplies ?? 'hold';
+    this.resumeDrainIntervalMs = opts.config.resumeDrainIntervalMs ?? DEFAULT_RESUME_DRAIN_INTERVAL_MS;
+    this.pausedBacklogSize = opts.config.pausedBacklogSize ?? DEFAULT_PAUSED_BACKLOG_SIZE;
+    this.pendingItemsMode = opts.config.pendingItems ?? 'summary';
+    this.welcomeTurn = opts.config.welcomeTurn ?? 'off';
+    this.eventRules = opts.config.eventRules ?? [];
+    this.digestEventTypes = new Set(opts.config.digestEventTypes ?? []);
+    // Compiled up front so a broken template fails the account at startup
+    this.eventTemplates = compileEventTemplates({
+      locale: opts.config.templateLocale,
+      templates: opts.config.eventTemplates,
+    });
+    this.digest = new DigestBuffer({
+      windowMs: opts.config.digestWindowMs,
+      maxEvents: opts.config.digestMaxEvents,
+      onFlush: (events) => this.flushDigest(events),
+    });
+    this.onPauseChange = opts.onPauseChange;
+    this.onActionSucceeded = opts.onActionSucceeded;
+    this.eventHandlers = opts.eventHandlers;
+    this.onUnknownFrame = opts.onUnknownFrame;
+    this.onInvalidFrame = opts.onInvalidFrame;
+    this.scheduler = new KeyedScheduler(
+      opts.config.maxConcurrentDispatches ?? DEFAULT_MAX_CONCURRENT_DISPATCHES,
+    );
+    this.outboundQueue = new OutboundQueue<QueuedReply>({
+      maxSize: opts.config.outboundQueueSize ?? DEFAULT_OUTBOUND_QUEUE_SIZE,
+      ttlMs: opts.config.outboundQueueTtlMs ?? DEFAULT_OUTBOUND_QUEUE_TTL_MS,
+      overflow: opts.config.outboundQueueOverflow ?? DEFAULT_OUTBOUND_QUEUE_OVERFLOW,
+      onDrop: ({ reply }, reason) => {
+        const total = this.getDroppedFrameCount();
+        this.logger.warn?.(`[OCC] Outbound ${reply.action} dropped (${reason}) — ${total} dropped so far`);
+        opts.onOutboundDrop?.(reply, reason, total);
+      },
+    });
+    this.heldReplies = new OutboundQueue<QueuedReply>({
+      maxSize: opts.config.outboundQueueSize ?? DEFAULT_OUTBOUND_QUEUE_SIZE,
+      ttlMs: opts.config.outboundQueueTtlMs ?? DEFAULT_OUTBOUND_QUEUE_TTL_MS,
+      overflow: opts.config.outboundQueueOverflow ?? DEFAULT_OUTBOUND_QUEUE_OVERFLOW,
+      onDrop: ({ reply }, reason) => {
+        const total = this.getDroppedFrameCount();
+        this.logger.warn?.(`[OCC] Held ${reply.action} dropped while paused (${reason}) — ${total} dropped so far`);
+        opts.onOutboundDrop?.(reply, reason, total);
+      },
+    });
     this.logger = opts.logger ?? {};
 
     this.done = new Promise<void>((resolve) => { this.doneResolve = resolve; });
@@ -117,12 +354,138 @@ export class OpenClawCityAdapter {
     this.closeSocket();
     this.setState(ConnectionState.DISCONNECTED);
 
+    this.clearDrainTimer();
+    // Digested events stay un-acked, so the server replays them next time
+    this.digest.clear();
+
+    // Nothing will flush the queues any more
+    for (const { reply, waiter } of [...this.outboundQueue.clear(), ...this.heldReplies.clear()]) {
+      waiter?.reject(new Error(`Cannot send ${reply.action}: adapter stopped`));
+    }
+
+    // Persist the final cursor so the next process resumes from here
+    void this.cursorStore?.flush();
+
     // Signal that the adapter is fully done — unblocks startAccount
     this.doneResolve?.();
   }
 
-  sendReply(reply: AgentReply): void {
-    this.send(reply);
+  /**
+   * Send an agent_reply without waiting for its result. While the socket is
+   * reconnecting the reply is queued and sent after the next welcome.
+   */
+  sendReply(reply: AgentReply, opts: { queueTtlMs?: number } = {}): void {
+    this.submitReply({ reply }, opts.queueTtlMs);
+  }
+
+  /**
+   * Send an agent_reply and wait for the server's action_result.
+   * Resolves with the result on success; rejects with ActionFailedError when
+   * the server reports a failure, or with an Error on timeout/disconnect.
+   * The timeout starts once the reply is on the wire. Before that, a reply
+   * queued while reconnecting or held while paused is rejected as soon as
+   * queueTtlMs (default outboundQueueTtlMs) runs out.
+   */
+  sendReplyAndWait(
+    reply: AgentReply,
+    opts: { timeoutMs?: number; queueTtlMs?: number } = {},
+  ): Promise<ActionResultFrame> {
+    return new Promise<ActionResultFrame>((resolve, reject) => {
+      const timeoutMs = opts.timeoutMs ?? this.actionTimeoutMs;
+      this.submitReply({ reply, waiter: { resolve, reject, timeoutMs } }, opts.queueTtlMs);
+    });
+  }
+
+  // ── Public API: City Actions ──
+  // Each helper validates its payload (rejecting with ActionValidationError)
+  // and resolves with the server's action_result.
+
+  move(params: MoveParams): Promise<ActionResultFrame> {
+    return this.performAction('move', params);
+  }
+
+  enterBuilding(params: EnterBuildingParams): Promise<ActionResultFrame> {
+    return this.performAction('enter_building', params);
+  }
+
+  leaveBuilding(): Promise<ActionResultFrame> {
+    return this.performAction('leave_building', {});
+  }
+
+  executeAction(params: ExecuteActionParams): Promise<ActionResultFrame> {
+    return this.performAction('execute_action', params);
+  }
+
+  reactToArtifact(params: ReactToArtifactParams): Promise<ActionResultFrame> {
+    return this.performAction('react_to_artifact', params);
+  }
+
+  propose(params: ProposeParams): Promise<ActionResultFrame> {
+    return this.performAction('propose', params);
+  }
+
+  acceptProposal(params: AcceptProposalParams): Promise<ActionResultFrame> {
+    return this.performAction('accept_proposal', params);
+  }
+
+  declineProposal(params: DeclineProposalParams): Promise<ActionResultFrame> {
+    return this.performAction('decline_proposal', params);
+  }
+
+  counterProposal(params: CounterProposalParams): Promise<ActionResultFrame> {
+    return this.performAction('counter_proposal', params);
+  }
+
+  acceptDm(params: AcceptDmParams): Promise<ActionResultFrame> {
+    return this.performAction('accept_dm', params);
+  }
+
+  declineDm(params: DeclineDmParams): Promise<ActionResultFrame> {
+    return this.performAction('decline_dm', params);
+  }
+
+  /** Untyped entry point for callers that only know the action name at runtime. */
+  async performAction<A extends CityActionName>(
+    action: A,
+    params: CityActionParams[A] | Record<string, unknown>,
+  ): Promise<ActionResultFrame> {
+    return this.sendReplyAndWait(buildActionReply(action, params));
+  }
+
+  /** Events that failed dispatch and were parked in the dead-letter store. */
+  async listDeadLetters(): Promise<DeadLetterEntry[]> {
+    return this.deadLetterStore ? this.deadLetterStore.list() : [];
+  }
+
+  /**
+   * Re-inject dead-lettered events through onMessage (all of them, or only
+   * the given seqs). Entries that dispatch successfully are removed; the
+   * rest stay in the store.
+   */
+  async replayDeadLetters(seqs?: number[]): Promise<{ replayed: number[]; failed: number[] }> {
+    const result = { replayed: [] as number[], failed: [] as number[] };
+    if (!this.deadLetterStore) return result;
+
+    const wanted = seqs ? new Set(seqs) : null;
+    const entries = (await this.deadLetterStore.list())
+      .filter((e) => !wanted || wanted.has(Number(e.event.seq)));
+
+    for (const { event } of entries) {
+      const outcome = await this.dispatchWithRetry(event);
+      (outcome.ok ? result.replayed : result.failed).push(Number(event.seq));
+    }
+    if (result.replayed.length) {
+      await this.deadLetterStore.remove(result.replayed);
+    }
+    return result;
+  }
+
+  getOutboundQueueSize(): number {
+    return this.outboundQueue.size;
+  }
+
+  getDroppedFrameCount(): number {
+    return this.outboundQueue.droppedCount + this.heldReplies.droppedCount;
   }
 
   getState(): ConnectionState {
@@ -137,12 +500,54 @@ export class OpenClawCityAdapter {
     return this.paused;
   }
 
+  /** Message from the latest paused frame, if the bot is paused. */
+  getPauseMessage(): string | undefined {
+    return this.pauseMessage;
+  }
+
+  /** Events waiting for resume (received while paused, not yet acked). */
+  getPausedBacklogSize(): number {
+    return this.pausedBacklog.size;
+  }
+
+  /** Events held for the current digest window. */
+  getDigestSize(): number {
+    return this.digest.size;
+  }
+
+  /** speak/move replies held until resume. */
+  getHeldReplyCount(): number {
+    return this.heldReplies.size;
+  }
+
+  /** Inbound frames dropped because they failed validation. */
+  getInvalidFrameCount(): number {
+    return this.invalidFrames;
+  }
+
+  /** Protocol version offered on the next (or current) connection. */
+  getProtocolVersion(): number {
+    return this.protocolVersion;
+  }
+
+  /** Event and frame types received so far that this client does not understand. */
+  getCompatibilityReport(): CompatibilityReport {
+    return {
+      protocolVersion: this.protocolVersion,
+      unknownEventTypes: this.unknownEventTypes.list(),
+      unknownFrameTypes: this.unknownFrameTypes.list(),
+    };
+  }
+
   // ── Internal: Socket Management ──
 
   private closeSocket(): void {
+    this.rejectPendingActions('connection closed');
     if (this.ws) {
       // Remove all listeners to prevent callbacks from a dead socket
       this.ws.removeAllListeners();
+      // Closing a socket that is still connecting emits 'error' — swallow it
+      this.ws.on('error', () => {});
       try {
         this.ws.close(1000, 'shutdown');
       } catch {
@@ -152,7 +557,26 @@ export class OpenClawCityAdapter {
     }
   }
 
-  private openSocket(): Promise<void> {
+  private async loadCursor(): Promise<void> {
+    if (this.cursorLoaded || !this.cursorStore) return;
+    this.cursorLoaded = true;
+    try {
+      const stored = await this.cursorStore.load();
+      // Never move backwards if an ack already happened in this process
+      if (stored !== null && stored > this.lastAckSeq) {
+        this.watermark.raiseBase(stored);
+        this.lastAckSeq = this.watermark.value;
+        this.logger.info?.(`[OCC] Restored lastAckSeq=${stored} from cursor store`);
+      }
+    } catch (err) {
+      this.logger.warn?.(`[OCC] Failed to load stored cursor: ${String(err)}`);
+    }
+  }
+
+  private async openSocket(): Promise<void> {
+    // First connect of this process: resume from the persisted cursor
+    await this.loadCursor();
+
     return new Promise<void>((resolve, reject) => {
       if (this.stopped) return reject(new Error('stopped'));
 
@@ -162,22 +586,25 @@ export class OpenClawCityAdapter {
       // Clean up any previous socket before creating a new one
       this.closeSocket();
 
-      // All auth happens at HTTP upgrade via query params + headers.
-      // Server authenticates during upgrade — no post-connect hello frame needed.
       const url = new URL(this.gatewayUrl);
-      url.searchParams.set('token', this.token);
-      url.searchParams.set('botId', this.botId);
-      // For resume: include lastAckSeq so server replays missed events
-      if (this.lastAckSeq > 0) {
-        url.searchParams.set('lastAckSeq', String(this.lastAckSeq));
-      }
-
-      const ws = new WebSocket(url.toString(), {
-        headers: {
+      url.searchParams.set('version', String(this.protocolVersion));
+      let headers: Record<string, string> = {};
+      if (this.handshake === 'query') {
+        // Auth happens at HTTP upgrade via query params + headers.
+        // Server authenticates during upgrade — no post-connect hello frame needed.
+        url.searchParams.set('token', this.token);
+        url.searchParams.set('botId', this.botId);
+        // For resume: include lastAckSeq so server replays missed events
+        if (this.lastAckSeq > 0) {
+          url.searchParams.set('lastAckSeq', String(this.lastAckSeq));
+        }
+        headers = {
           'Authorization': `Bearer ${this.token}`,
           'X-Bot-Id': this.botId,
-        },
-      });
+        };
+      }
+
+      const ws = new WebSocket(url.toString(), { headers });
       this.ws = ws;
 
       ws.on('open', () => {
@@ -186,7 +613,11 @@ export class OpenClawCityAdapter {
           ws.close();
           return reject(new Error('stopped'));
         }
-        // No handshake frame — server already authenticated via query params
+        if (this.handshake === 'frame') {
+          // Frame handshake: credentials travel in hello/resume, not the URL
+          this.sendHandshake();
+        }
+        // Query handshake: server already authenticated via query params
         // and will send a welcome frame automatically.
       });
 
@@ -198,11 +629,27 @@ export class OpenClawCityAdapter {
         if (raw === 'pong') return;
 
         this.logger.info?.(`[OCC] Raw frame received (${raw.length} bytes): ${raw.slice(0, 300)}`);
-        const frame = this.parseFrame(data);
-        if (!frame) return;
+        const parsed = this.parseFrame(data);
+        if (!parsed.ok) {
+          // connect() waits for the welcome: if it was rejected, drop the
+          // socket so the usual reconnect and backoff take over
+          if (parsed.invalid.type === 'welcome' && this.pendingReject) {
+            this.pendingReject = null;
+            this.closeSocket();
+            this.setState(ConnectionState.DISCONNECTED);
+            reject(new Error('Invalid welcome frame'));
+          }
+          return;
+        }
+        const frame = parsed.frame as ServerFrame;
 
         if (frame.type === 'welcome') {
           this.pendingReject = null;
+          const version = (frame as WelcomeFrame).version;
+          if (version !== undefined && !this.protocolVersions.includes(version)) {
+            this.fail(`unsupported_version: server answered with protocol v${version}, client supports [${this.protocolVersions.join(', ')}]`);
+            return reject(new Error(`Unsupported protocol version ${version}`));
+          }
           this.handleWelcome(frame as WelcomeFrame);
           resolve();
         } else if (frame.type === 'error') {
@@ -219,6 +666,8 @@ export class OpenClawCityAdapter {
         const reasonStr = reason?.toString?.() ?? '';
         this.logger.error?.(`WebSocket closed: code=${code} reason="${reasonStr}" stopped=${this.stopped}`);
         this.clearPing();
+        // Results for replies sent on this socket will never arrive
+        this.rejectPendingActions('connection closed');
         if (this.stopped) return;
 
         // Code 4000 = server replaced this connection with a newer one.
@@ -254,7 +703,7 @@ export class OpenClawCityAdapter {
     if (this.lastAckSeq > 0) {
       this.send({
         type: 'resume',
-        version: PROTOCOL_VERSION,
+        version: this.protocolVersion,
         botId: this.botId,
         token: this.token,
         lastAckSeq: this.lastAckSeq,
@@ -262,7 +711,7 @@ export class OpenClawCityAdapter {
     } else {
       this.send({
         type: 'hello',
-        version: PROTOCOL_VERSION,
+        version: this.protocolVersion,
         botId: this.botId,
         token: this.token,
       });
@@ -272,8 +721,9 @@ export class OpenClawCityAdapter {
   private handleWelcome(welcome: WelcomeFrame): void {
     this.setState(ConnectionState.CONNECTED);
     this.attemptCount = 0;
+    this.tokenRefreshCount = 0;
     this.reconnecting = false;
-    this.paused = welcome.paused ?? false;
+    this.setPaused(welcome.paused ?? false);
 
     // Send an immediate heartbeat so the server knows we're alive.
     // Must be a bare "ping" string — Cloudflare Hibernation API does
@@ -285,60 +735,478 @@ export class OpenClawCityAdapter {
     this.startPing();
     this.onWelcome?.(welcome);
 
+    // Replies produced while we were reconnecting go out first, in order
+    this.flushOutboundQueue();
+
+    this.dispatchWelcomeTurn(welcome);
+
     // Server sends pending as either `pending` (array) or `pending_items` (object)
-    const pendingEvents = welcome.pending ?? [];
-    if (pendingEvents.length) {
-      this.dispatchPendingEvents(pendingEvents);
+    const pendingEvents: unknown[] = welcome.pending ?? [];
+    for (const raw of pendingEvents) {
+      const result = validatePendingEvent(raw);
+      if (result.ok) {
+        this.enqueueCityEvent(result.event);
+      } else {
+        this.rejectFrame(result.invalid, JSON.stringify(raw)?.slice(0, 200) ?? '');
+      }
     }
+    this.handlePendingItems(welcome.pending_items);
   }
 
-  private async dispatchPendingEvents(events: CityEvent[]): Promise<void> {
-    for (const event of events) {
-      await this.handleCityEvent(event);
+  /**
+   * Give the agent a turn describing where it woke up — on the first
+   * welcome only, or on every reconnect, per welcomeTurn. Skipped while
+   * paused (the next welcome tries again).
+   */
+  private dispatchWelcomeTurn(welcome: WelcomeFrame): void {
+    if (this.welcomeTurn === 'off' || this.paused) return;
+    if (this.welcomeTurn === 'first' && this.welcomeTurnSent) return;
+    this.welcomeTurnSent = true;
+    this.enqueueSyntheticEvent(buildWelcomeEvent(welcome), []);
+  }
+
+  /**
+   * Turn welcome pending_items into agent turns: one synthetic event per
+   * item ('events') or a single catch-up turn ('summary'). Items already
+   * dispatched are skipped; while paused only owner messages go through.
+   * Ids the server no longer lists have been read and are forgotten.
+   */
+  private handlePendingItems(raw: unknown): void {
+    if (this.pendingItemsMode === 'off') return;
+    const all = normalizePendingItems(raw);
+    const listed = new Set(all.map((item) => item.id));
+    for (const id of this.seenPendingItems) {
+      if (!listed.has(id)) this.seenPendingItems.delete(id);
+    }
+
+    const items = all.filter((item) =>
+      !this.seenPendingItems.has(item.id) && (!this.paused || item.kind === 'owner_message'));
+    if (!items.length) return;
+
+    this.logger.info?.(`[OCC] ${items.length} pending item(s) in welcome — dispatching as ${this.pendingItemsMode}`);
+    if (this.pendingItemsMode === 'events') {
+      for (const item of items) {
+        this.enqueueSyntheticEvent(pendingItemToEvent(item), [item.id]);
+      }
+    } else {
+      this.enqueueSyntheticEvent(buildPendingSummaryEvent(items), items.map((item) => item.id));
+    }
+  }
+
+  /**
+   * Synthetic events bypass the watermark and are never acked. If dispatch
+   * fails, their items are forgotten so the next welcome retries them.
+   */
+  private enqueueSyntheticEvent(event: CityEvent, pendingIds: string[]): void {
+    for (const id of pendingIds) this.seenPendingItems.add(id);
+    void this.scheduler.schedule(eventOrderingKey(event), async () => {
+      const outcome = await this.dispatchWithRetry(event);
+      if (!outcome.ok) {
+        this.logger.error?.(`[OCC] Synthetic ${event.eventType} failed after ${outcome.attempts} attempt(s): ${String(outcome.error)}`);
+        for (const id of pendingIds) this.seenPendingItems.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Hand an event to the scheduler: serialized with earlier events for the
+   * same conversation/sender, concurrent with other peers. Replays of seqs
+   * that are already done are re-acked without running another agent turn.
+   */
+  private enqueueCityEvent(event: CityEvent, fromBacklog = false): void {
+    const seq = Number(event.seq);
+    if (this.watermark.isDone(seq)) {
+      this.logger.info?.(`[OCC] seq=${seq} already processed — re-acking replay`);
+      this.send({ type: 'ack', seq });
+      return;
+    }
+    if (this.pausedBacklog.has(seq)) {
+      this.logger.info?.(`[OCC] seq=${seq} already held for resume — ignoring duplicate`);
+      return;
+    }
+    if (!this.watermark.begin(seq)) {
+      this.logger.info?.(`[OCC] seq=${seq} already in flight — ignoring duplicate`);
+      return;
     }
+    const rule = matchEventRule(this.eventRules, event);
+    if (rule?.action === 'drop') {
+      this.logger.info?.(`[OCC] seq=${seq} ${event.eventType} dropped by event rule`);
+      this.sendAck(seq);
+      return;
+    }
+    if ((this.paused || this.resumeDraining) && !fromBacklog && event.eventType !== 'owner_message') {
+      // Hold un-acked until resume (or until the drain reaches it); the
+      // watermark stays below it so a restart in the meantime still gets
+      // it replayed
+      if (this.holdForResume(event)) {
+        this.logger.info?.(`[OCC] ${this.paused ? 'Paused' : 'Resuming'} — holding seq=${seq} (${this.pausedBacklog.size} held)`);
+      }
+      return;
+    }
+    if (this.shouldDigest(event, rule)) {
+      // Stays in flight (un-acked) until the digest turn is dispatched
+      this.digest.add(event);
+      return;
+    }
+    // handleCityEvent has its own try/catch, so the scheduled task never rejects
+    void this.scheduler.schedule(eventOrderingKey(event), () => this.handleCityEvent(event));
   }
 
   private handleFrame(frame: ServerFrame): void {
     switch (frame.type) {
       case 'city_event':
         this.logger.info?.(`[OCC] city_event frame: seq=${(frame as CityEvent).seq} eventType=${(frame as CityEvent).eventType} from=${(frame as CityEvent).from?.name ?? '?'}`);
-        // Intentionally fire-and-forget: handleCityEvent has its own
-        // try/catch so unhandled rejections are impossible, and we don't
-        // want to block the WebSocket message handler on slow dispatches.
-        void this.handleCityEvent(frame);
+        if (!this.isUnderstood(frame.eventType)) {
+          this.unknownEventTypes.record(String(frame.eventType));
+          this.logger.info?.(`[OCC] Unknown event type ${frame.eventType} — rendering it with the default template`);
+        }
+        // Don't block the WebSocket message handler on slow dispatches —
+        // the scheduler keeps per-conversation order.
+        this.enqueueCityEvent(frame);
         break;
       case 'action_result':
         this.logger.debug?.('Action result:', frame.success, frame.data ?? frame.error);
+        this.handleActionResult(frame);
         break;
       case 'error':
         this.handleError(frame);
         break;
       case 'paused':
-        this.paused = true;
         this.logger.info?.('Bot paused:', frame.message);
+        this.setPaused(true, frame.message);
         break;
       case 'resumed':
-        this.paused = false;
         this.logger.info?.('Bot resumed');
+        this.setPaused(false);
         break;
-      default:
-        this.logger.info?.(`[OCC] Unknown frame type: ${(frame as ServerFrame).type}`);
+      default: {
+        const unknown = frame as unknown as UnknownFrame;
+        this.logger.info?.(`[OCC] Unknown frame type: ${unknown.type}`);
+        this.unknownFrameTypes.record(String(unknown.type));
+        this.onUnknownFrame?.(unknown);
+      }
     }
   }
 
+  /**
+   * An event type is understood when a handler is registered for it or the
+   * account has a template for it. Anything else is still dispatched,
+   * rendered by the default template, and shows up in the compatibility report.
+   */
+  private isUnderstood(eventType: string): boolean {
+    return (eventType !== 'default' && this.eventTemplates.has(eventType)) || !!this.eventHandlers?.has(eventType);
+  }
+
+  /** The registered handler's text for an event, or the account template's. */
+  private readonly formatEvent = (event: CityEvent): string => {
+    const handler = this.eventHandlers?.get(event.eventType);
+    if (handler) {
+      try {
+        return handler.format(event, this.eventTemplates);
+      } catch (err) {
+        this.logger.warn?.(`[OCC] Handler for ${event.eventType} failed, using the template: ${String(err)}`);
+      }
+    }
+    return formatEventText(event, this.eventTemplates);
+  };
+
   private async handleCityEvent(event: CityEvent): Promise<void> {
     this.logger.info?.(`[OCC] handleCityEvent ENTER: seq=${event.seq} eventType=${event.eventType}`);
-    try {
-      const envelope = normalize(event);
-      this.logger.info?.(`[OCC] handleCityEvent normalized: id=${envelope.id} text=${envelope.content.text.slice(0, 80)}`);
-      await this.onMessage(envelope);
+    const outcome = await this.dispatchWithRetry(event);
+    if (outcome.ok) {
       this.logger.info?.(`[OCC] handleCityEvent onMessage OK: seq=${event.seq}`);
       this.sendAck(event.seq);
+      return;
+    }
+
+    this.logger.error?.(`[OCC] handleCityEvent FAILED: seq=${event.seq} attempts=${outcome.attempts} error=${String(outcome.error)}`);
+    await this.handleDispatchFailure(event, outcome);
+  }
+
+  /** Apply dispatchFailurePolicy to an event whose dispatch gave up. */
+  private async handleDispatchFailure(event: CityEvent, outcome: { error: unknown; attempts: number }): Promise<void> {
+    const error = String(outcome.error);
+    if (this.stopped) return; // shutting down — leave un-acked, the server replays it
+
+    if (this.dispatchFailurePolicy === 'replay') {
+      // Leave un-acked so the server replays it on the next connection.
+      // The watermark stays below it so the resume cursor includes it.
+      this.watermark.abandon(Number(event.seq));
+      this.logger.warn?.(`[OCC] Leaving seq=${event.seq} un-acked for server replay`);
+      return;
+    }
+
+    // Park the event locally, then ack so the server stops replaying it
+    try {
+      await this.deadLetterStore?.append({
+        event,
+        error,
+        attempts: outcome.attempts,
+        failedAt: Date.now(),
+      });
+      if (this.deadLetterStore) {
+        this.logger.warn?.(`[OCC] seq=${event.seq} written to dead-letter store`);
+      }
     } catch (err) {
-      this.logger.error?.(`[OCC] handleCityEvent FAILED: seq=${event.seq} error=${String(err)}`);
-      // Still ack so the server doesn't replay indefinitely.
-      // The event was received; the dispatch error is on our side.
-      this.sendAck(event.seq);
+      // Acking now would lose the event — fall back to server replay
+      this.watermark.abandon(Number(event.seq));
+      this.logger.error?.(`[OCC] Failed to dead-letter seq=${event.seq}, leaving it un-acked for server replay: ${String(err)}`);
+      return;
+    }
+    this.sendAck(event.seq);
+  }
+
+  /** Run onMessage with local retries and exponential backoff. */
+  private async dispatchWithRetry(
+    event: CityEvent,
+  ): Promise<{ ok: true } | { ok: false; error: unknown; attempts: number }> {
+    const maxAttempts = 1 + Math.max(0, this.dispatchRetries);
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        const envelope = normalize(event, this.formatEvent);
+        const rule = matchEventRule(this.eventRules, event);
+        if (rule?.action === 'route') envelope.route = resolveRouteOverride(rule, event);
+        this.logger.info?.(`[OCC] handleCityEvent normalized: id=${envelope.id} text=${envelope.content.text.slice(0, 80)}`);
+        await this.onMessage(envelope);
+        return { ok: true };
+      } catch (err) {
+        lastError = err;
+        if (attempt === maxAttempts || this.stopped) {
+          return { ok: false, error: lastError, attempts: attempt };
+        }
+        const delay = this.dispatchRetryBaseMs * Math.pow(2, attempt - 1);
+        this.logger.warn?.(`[OCC] Dispatch of seq=${event.seq} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms: ${String(err)}`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+    return { ok: false, error: lastError, attempts: maxAttempts };
+  }
+
+  // ── Internal: Digest ──
+
+  /**
+   * Digest when a rule says so, or when no rule matched and the type is in
+   * digestEventTypes. DMs and owner messages always get their own turn.
+   */
+  private shouldDigest(event: CityEvent, rule: EventRule | undefined): boolean {
+    if (DIGEST_BYPASS_TYPES.has(event.eventType)) return false;
+    if (rule) return rule.action === 'digest';
+    return this.digestEventTypes.has(event.eventType);
+  }
+
+  private flushDigest(events: CityEvent[]): void {
+    if (this.stopped) return;
+    if (this.paused) {
+      // Back to the pause backlog; after resume they are digested again
+      for (const event of events) this.holdForResume(event);
+      this.logger.info?.(`[OCC] Paused — holding ${events.length} digested event(s)`);
+      return;
+    }
+    const digest = buildDigestEvent(events, Date.now(), this.formatEvent);
+    this.logger.info?.(`[OCC] Digest window closed: ${events.length} event(s) (${digest.metadata.pendingId})`);
+    void this.scheduler.schedule(eventOrderingKey(digest), () => this.handleDigest(digest, events));
+  }
+
+  /** One turn for the whole window; the underlying seqs are acked only after it. */
+  private async handleDigest(digest: CityEvent, events: CityEvent[]): Promise<void> {
+    const outcome = await this.dispatchWithRetry(digest);
+    if (outcome.ok) {
+      for (const event of events) this.sendAck(event.seq);
+      return;
+    }
+    this.logger.error?.(`[OCC] Digest of ${events.length} event(s) FAILED: attempts=${outcome.attempts} error=${String(outcome.error)}`);
+    for (const event of events) {
+      await this.handleDispatchFailure(event, outcome);
+    }
+  }
+
+  // ── Internal: Outbound Replies ──
+
+  private submitReply(queued: QueuedReply, queueTtlMs?: number): void {
+    const { reply, waiter } = queued;
+    if (this.stopped) {
+      waiter?.reject(new Error(`Cannot send ${reply.action}: adapter stopped`));
+      return;
+    }
+    if (this.paused && PAUSE_GATED_ACTIONS.has(reply.action)) {
+      this.holdReply(queued, queueTtlMs);
+      return;
+    }
+    if (this.state === ConnectionState.CONNECTED && this.ws?.readyState === WebSocket.OPEN) {
+      this.transmitReply(queued);
+      return;
+    }
+
+    const accepted = this.outboundQueue.enqueue(queued, {
+      ttlMs: queueTtlMs,
+      onDrop: (reason) => waiter?.reject(new Error(`${reply.action} dropped from outbound queue (${reason})`)),
+    });
+    if (!accepted) {
+      waiter?.reject(new Error(`Outbound queue full — ${reply.action} rejected`));
+    } else {
+      this.logger.info?.(`[OCC] Socket not ready — queued ${reply.action} (${this.outboundQueue.size} queued)`);
+    }
+  }
+
+  private holdReply(queued: QueuedReply, queueTtlMs?: number): void {
+    const { reply, waiter } = queued;
+    if (this.pausedReplies === 'reject') {
+      waiter?.reject(new Error(`Cannot send ${reply.action}: bot is paused`));
+      return;
+    }
+    const accepted = this.heldReplies.enqueue(queued, {
+      ttlMs: queueTtlMs,
+      onDrop: (reason) => waiter?.reject(new Error(`${reply.action} dropped while paused (${reason})`)),
+    });
+    if (!accepted) {
+      waiter?.reject(new Error(`Held reply queue full — ${reply.action} rejected`));
+    } else {
+      this.logger.info?.(`[OCC] Paused — holding ${reply.action} until resume (${this.heldReplies.size} held)`);
+    }
+  }
+
+  private transmitReply({ reply, waiter }: QueuedReply): void {
+    const requestId = reply.requestId ?? randomUUID();
+    // Fire-and-forget replies time out too, so a server that never answers
+    // them cannot grow pendingActions without bound
+    const timeoutMs = waiter?.timeoutMs ?? this.actionTimeoutMs;
+    const pending: PendingAction = {
+      action: reply.action,
+      reply,
+      resolve: waiter?.resolve,
+      reject: waiter?.reject,
+      timer: setTimeout(() => {
+        this.pendingActions.delete(requestId);
+        if (waiter) {
+          waiter.reject(new Error(`Timed out after ${timeoutMs}ms waiting for ${reply.action} result`));
+        } else {
+          this.logger.warn?.(`[OCC] No result for ${reply.action} after ${timeoutMs}ms — no longer tracking it`);
+        }
+      }, timeoutMs),
+    };
+    this.pendingActions.set(requestId, pending);
+    this.send({ ...serializeReply(reply), requestId });
+  }
+
+  private flushOutboundQueue(): void {
+    const queued = this.outboundQueue.drain();
+    if (!queued.length) return;
+    this.logger.info?.(`[OCC] Flushing ${queued.length} queued outbound repl${queued.length === 1 ? 'y' : 'ies'}`);
+    for (const item of queued) {
+      this.transmitReply(item);
+    }
+  }
+
+  private handleActionResult(frame: ActionResultFrame): void {
+    let requestId: string | undefined;
+    if (frame.requestId) {
+      // Unknown ids belong to replies that already timed out — ignore them
+      if (!this.pendingActions.has(frame.requestId)) return;
+      requestId = frame.requestId;
+    } else {
+      // Server did not echo an id — results arrive in send order
+      requestId = this.pendingActions.keys().next().value;
+    }
+    if (!requestId) return;
+
+    const pending = this.pendingActions.get(requestId)!;
+    this.pendingActions.delete(requestId);
+    clearTimeout(pending.timer);
+
+    if (frame.success) {
+      pending.resolve?.(frame);
+      this.onActionSucceeded?.(pending.action, frame, pending.reply);
+    } else {
+      pending.reject?.(new ActionFailedError(pending.action, frame));
+    }
+  }
+
+  private rejectPendingActions(reason: string): void {
+    for (const pending of this.pendingActions.values()) {
+      clearTimeout(pending.timer);
+      pending.reject?.(new Error(`${pending.action} result lost: ${reason}`));
+    }
+    this.pendingActions.clear();
+  }
+
+  // ── Internal: Pause ──
+
+  private setPaused(paused: boolean, message?: string): void {
+    const changed = paused !== this.paused || message !== this.pauseMessage;
+    const resumed = this.paused && !paused;
+    this.paused = paused;
+    this.pauseMessage = paused ? message : undefined;
+    if (paused) {
+      this.clearDrainTimer();
+      this.resumeDraining = false;
+    } else {
+      this.releaseHeldReplies();
+      if (resumed) this.resumeDraining = true;
+      this.drainPausedBacklog();
+    }
+    if (changed) this.onPauseChange?.(paused, this.pauseMessage);
+  }
+
+  /**
+   * Put an event in the pause backlog, un-acked. Once the backlog holds
+   * pausedBacklogSize events, further ones are not kept in memory — the
+   * server still has them and replays them on the next connection.
+   * Returns false when the event was left to the server.
+   */
+  private holdForResume(event: CityEvent): boolean {
+    const seq = Number(event.seq);
+    this.watermark.abandon(seq);
+    if (this.pausedBacklog.size >= this.pausedBacklogSize) {
+      this.logger.warn?.(`[OCC] Pause backlog full (${this.pausedBacklogSize}) — leaving seq=${seq} un-acked for server replay`);
+      return false;
+    }
+    this.pausedBacklog.set(seq, event);
+    return true;
+  }
+
+  private releaseHeldReplies(): void {
+    const held = this.heldReplies.drain();
+    if (!held.length) return;
+    this.logger.info?.(`[OCC] Resumed — releasing ${held.length} held repl${held.length === 1 ? 'y' : 'ies'}`);
+    for (const item of held) {
+      this.submitReply(item);
+    }
+  }
+
+  /**
+   * Feed held events back into the pipeline one at a time, spaced by
+   * resumeDrainIntervalMs, so a long pause does not turn into a burst of
+   * agent turns. After `resumed` the drain stays open until a whole
+   * interval passes with nothing left, so the server's replayed backlog is
+   * paced too. Pausing again stops the drain where it is.
+   */
+  private drainPausedBacklog(): void {
+    if (this.drainTimer || this.stopped || this.paused) return;
+    const next = this.pausedBacklog.values().next();
+    if (next.done && !this.resumeDraining) return;
+
+    if (!next.done) {
+      const event = next.value;
+      this.pausedBacklog.delete(Number(event.seq));
+      this.enqueueCityEvent(event, true);
+    }
+
+    this.drainTimer = setTimeout(() => {
+      this.drainTimer = null;
+      if (this.pausedBacklog.size) {
+        this.drainPausedBacklog();
+      } else {
+        this.resumeDraining = false;
+      }
+    }, this.resumeDrainIntervalMs);
+  }
+
+  private clearDrainTimer(): void {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
     }
   }
 
@@ -346,7 +1214,9 @@ export class OpenClawCityAdapter {
     this.logger.error?.(`Server error: ${frame.reason} — ${frame.message ?? ''}`);
     this.onError?.(frame);
 
-    if (frame.reason === 'auth_failed' || frame.reason === 'token_expired') {
+    if (frame.reason === 'token_expired' && this.refreshToken) {
+      void this.refreshAndReconnect();
+    } else if (frame.reason === 'auth_failed' || frame.reason === 'token_expired') {
       this.stop();
     } else if (frame.reason === 'rate_limited' && frame.retryAfter) {
       // Respect the server's retryAfter before next reconnect
@@ -355,20 +1225,107 @@ export class OpenClawCityAdapter {
         this.reconnectTimer = null;
         if (!this.stopped) void this.connect();
       }, frame.retryAfter * 1000);
+    } else if (frame.reason === 'unsupported_version') {
+      this.negotiateAfterRejection(frame.supported ?? []);
     }
   }
 
+  /**
+   * The server refused our protocol version. Retry right away with the
+   * highest version both sides support; stop for good when there is none
+   * (reconnecting with the same version would loop forever).
+   */
+  private negotiateAfterRejection(serverVersions: number[]): void {
+    const next = negotiateVersion(this.protocolVersions, serverVersions);
+    if (next === null || next === this.protocolVersion) {
+      this.fail(
+        `unsupported_version: client supports [${this.protocolVersions.join(', ')}], ` +
+        `server supports [${serverVersions.join(', ')}]`,
+      );
+      return;
+    }
+
+    this.logger.info?.(`[OCC] Server rejected protocol v${this.protocolVersion} — retrying with v${next}`);
+    this.protocolVersion = next;
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) void this.connect();
+    }, 0);
+  }
+
+  /**
+   * Swap in a fresh token and reconnect. Regular reconnects are held off
+   * while the refresh is in flight so we never retry with the dead token.
+   * Stops for good when the server keeps rejecting refreshed tokens.
+   */
+  private async refreshAndReconnect(): Promise<void> {
+    if (this.refreshing) return;
+    if (this.tokenRefreshCount >= MAX_CONSECUTIVE_TOKEN_REFRESHES) {
+      this.fail(`token_refresh_failed: server rejected ${this.tokenRefreshCount} refreshed tokens in a row`);
+      return;
+    }
+    this.tokenRefreshCount++;
+    this.refreshing = true;
+    this.clearReconnectTimer();
+    this.logger.info?.('[OCC] Token expired — refreshing');
+
+    let token: string;
+    try {
+      token = await this.refreshToken!(this.token);
+    } catch (err) {
+      this.refreshing = false;
+      this.fail(`token_refresh_failed: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    if (this.stopped) return;
+
+    this.token = token;
+    try {
+      await this.onTokenRefreshed?.(token);
+    } catch (err) {
+      // Persisting the token is best-effort — the live connection can still use it
+      this.logger.warn?.(`[OCC] Failed to persist refreshed token: ${String(err)}`);
+    }
+
+    this.refreshing = false;
+    this.logger.info?.('[OCC] Token refreshed — reconnecting');
+    this.clearReconnectTimer();
+    this.reconnecting = false;
+    this.attemptCount = 0;
+    if (!this.stopped) void this.connect();
+  }
+
+  /** Stop for good and report why — used for errors a reconnect cannot fix. */
+  private fail(message: string): void {
+    this.logger.error?.(`[OCC] Stopping: ${message}`);
+    this.stop();
+    this.onFatalError?.(message);
+  }
+
   private sendAck(seq: number | string): void {
     // PostgREST may return bigint IDs as strings — coerce to number
     const seqNum = Number(seq);
-    this.lastAckSeq = seqNum;
+    // Frames are validated on arrival; this keeps a NaN or fractional seq
+    // from any other path out of the resume cursor
+    if (!Number.isSafeInteger(seqNum) || seqNum < 0) {
+      this.logger.warn?.(`[OCC] Refusing to ack invalid seq=${String(seq)}`);
+      return;
+    }
+    // Ack each event individually so the server marks it consumed, but only
+    // move the resume cursor over a contiguous run of completed seqs
     this.send({ type: 'ack', seq: seqNum });
+    const next = this.watermark.complete(seqNum);
+    if (next > this.lastAckSeq) {
+      this.lastAckSeq = next;
+      this.cursorStore?.save(next);
+    }
   }
 
   // ── Internal: Reconnection ──
 
   private scheduleReconnect(): void {
-    if (this.stopped || this.reconnecting) return;
+    if (this.stopped || this.reconnecting || this.refreshing) return;
     this.reconnecting = true;
 
     const delay = this.calculateBackoff(this.attemptCount);
@@ -428,13 +1385,30 @@ export class OpenClawCityAdapter {
     }
   }
 
-  private parseFrame(data: WebSocket.Data): ServerFrame | null {
+  private parseFrame(data: WebSocket.Data): FrameParseResult {
+    let raw: unknown;
     try {
-      return JSON.parse(data.toString()) as ServerFrame;
+      raw = JSON.parse(data.toString());
     } catch {
-      this.logger.warn?.('Failed to parse frame:', data.toString().slice(0, 200));
-      return null;
+      const invalid = { issues: ['not valid JSON'] };
+      this.rejectFrame(invalid, data.toString().slice(0, 200));
+      return { ok: false, invalid };
     }
+    const result = validateServerFrame(raw);
+    if (!result.ok) this.rejectFrame(result.invalid, data.toString().slice(0, 200));
+    // Unknown types carry on to handleFrame's default branch
+    return result;
+  }
+
+  /** Count a frame that failed validation and report it; it is never acked or dispatched. */
+  private rejectFrame(invalid: InvalidFrame, excerpt: string): void {
+    this.invalidFrames++;
+    const seq = invalid.seq !== undefined ? ` seq=${String(invalid.seq)}` : '';
+    this.logger.warn?.(
+      `[OCC] Rejected invalid ${invalid.type ?? 'untyped'} frame${seq}: ${invalid.issues.join('; ')} ` +
+      `(${this.invalidFrames} rejected so far) — ${excerpt}`,
+    );
+    this.onInvalidFrame?.(invalid, this.invalidFrames);
   }
 
   private setState(next: ConnectionState): void {
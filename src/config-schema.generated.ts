@@ -0,0 +1,307 @@
+// Generated by scripts/generate-config-schema.mjs from src/config-schema.ts — do not edit.
+// Run `npm run generate:config-schema` after changing the zod schema.
+
+export const CONFIG_JSON_SCHEMA: Record<string, unknown> = {
+  "$schema": "https://json-schema.org/draft/2020-12/schema",
+  "type": "object",
+  "properties": {
+    "gatewayUrl": {
+      "default": "wss://api.openbotcity.com/agent-channel",
+      "type": "string",
+      "format": "uri"
+    },
+    "apiKey": {
+      "type": "string",
+      "minLength": 1
+    },
+    "botId": {
+      "type": "string",
+      "minLength": 1
+    },
+    "reconnectBaseMs": {
+      "default": 3000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "reconnectMaxMs": {
+      "default": 300000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "pingIntervalMs": {
+      "default": 15000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "handshake": {
+      "default": "query",
+      "type": "string",
+      "enum": [
+        "query",
+        "frame"
+      ]
+    },
+    "actionTimeoutMs": {
+      "default": 15000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "outboundQueueSize": {
+      "default": 100,
+      "type": "integer",
+      "minimum": 0,
+      "maximum": 9007199254740991
+    },
+    "outboundQueueTtlMs": {
+      "default": 60000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "outboundQueueOverflow": {
+      "default": "drop-oldest",
+      "type": "string",
+      "enum": [
+        "drop-oldest",
+        "reject"
+      ]
+    },
+    "dispatchRetries": {
+      "default": 2,
+      "type": "integer",
+      "minimum": 0,
+      "maximum": 9007199254740991
+    },
+    "dispatchRetryBaseMs": {
+      "default": 1000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "dispatchFailurePolicy": {
+      "default": "dead-letter",
+      "type": "string",
+      "enum": [
+        "dead-letter",
+        "replay"
+      ]
+    },
+    "maxConcurrentDispatches": {
+      "default": 4,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "pausedReplies": {
+      "default": "hold",
+      "type": "string",
+      "enum": [
+        "hold",
+        "reject"
+      ]
+    },
+    "resumeDrainIntervalMs": {
+      "default": 1000,
+      "type": "integer",
+      "minimum": 0,
+      "maximum": 9007199254740991
+    },
+    "pausedBacklogSize": {
+      "default": 500,
+      "type": "integer",
+      "minimum": 0,
+      "maximum": 9007199254740991
+    },
+    "pendingItems": {
+      "default": "summary",
+      "type": "string",
+      "enum": [
+        "summary",
+        "events",
+        "off"
+      ]
+    },
+    "eventRules": {
+      "default": [],
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "match": {
+            "type": "object",
+            "properties": {
+              "eventType": {
+                "anyOf": [
+                  {
+                    "type": "string"
+                  },
+                  {
+                    "type": "array",
+                    "items": {
+                      "type": "string"
+                    }
+                  }
+                ]
+              },
+              "senderId": {
+                "anyOf": [
+                  {
+                    "type": "string"
+                  },
+                  {
+                    "type": "array",
+                    "items": {
+                      "type": "string"
+                    }
+                  }
+                ]
+              },
+              "zoneId": {
+                "anyOf": [
+                  {
+                    "type": "number"
+                  },
+                  {
+                    "type": "array",
+                    "items": {
+                      "type": "number"
+                    }
+                  }
+                ]
+              },
+              "buildingId": {
+                "anyOf": [
+                  {
+                    "type": "string"
+                  },
+                  {
+                    "type": "array",
+                    "items": {
+                      "type": "string"
+                    }
+                  }
+                ]
+              }
+            }
+          },
+          "action": {
+            "type": "string",
+            "enum": [
+              "dispatch",
+              "drop",
+              "route",
+              "digest"
+            ]
+          },
+          "route": {
+            "type": "object",
+            "properties": {
+              "agentId": {
+                "type": "string"
+              },
+              "peerId": {
+                "type": "string"
+              },
+              "chatType": {
+                "type": "string",
+                "enum": [
+                  "direct",
+                  "group"
+                ]
+              }
+            }
+          }
+        },
+        "required": [
+          "action"
+        ]
+      }
+    },
+    "expiredProposals": {
+      "default": "annotate",
+      "type": "string",
+      "enum": [
+        "annotate",
+        "drop"
+      ]
+    },
+    "digestEventTypes": {
+      "default": [],
+      "type": "array",
+      "items": {
+        "type": "string"
+      }
+    },
+    "digestWindowMs": {
+      "default": 300000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "digestMaxEvents": {
+      "default": 50,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "templateLocale": {
+      "default": "en",
+      "type": "string",
+      "enum": [
+        "en",
+        "de",
+        "es",
+        "fr"
+      ]
+    },
+    "eventTemplates": {
+      "default": {},
+      "type": "object",
+      "propertyNames": {
+        "type": "string"
+      },
+      "additionalProperties": {
+        "type": "string"
+      }
+    },
+    "welcomeTurn": {
+      "default": "off",
+      "type": "string",
+      "enum": [
+        "off",
+        "first",
+        "always"
+      ]
+    },
+    "cityContextMaxTokens": {
+      "default": 300,
+      "type": "integer",
+      "minimum": 0,
+      "maximum": 9007199254740991
+    },
+    "heartbeatTtlMs": {
+      "default": 300000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "heartbeatTimeoutMs": {
+      "default": 10000,
+      "type": "integer",
+      "exclusiveMinimum": 0,
+      "maximum": 9007199254740991
+    },
+    "enabled": {
+      "default": true,
+      "type": "boolean"
+    }
+  },
+  "required": [
+    "apiKey",
+    "botId"
+  ]
+};
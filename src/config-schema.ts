@@ -1,13 +1,114 @@
 import { z } from 'zod';
+import { TEMPLATE_LOCALES, validateEventTemplates } from './templates.js';
+import type { OpenClawCityAccountConfig, TemplateLocale } from './types.js';
+
+/** Thrown when an account's config does not match the schema. */
+export class ConfigValidationError extends Error {
+  constructor(readonly accountId: string, readonly issues: string[]) {
+    super(`Invalid OpenClawCity config for account "${accountId}": ${issues.join('; ')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const oneOrMany = <T extends z.ZodType>(schema: T) => z.union([schema, z.array(schema)]);
+
+export const EventRuleSchema = z.object({
+  match: z.object({
+    eventType: oneOrMany(z.string()).optional(),
+    senderId: oneOrMany(z.string()).optional(),
+    zoneId: oneOrMany(z.number()).optional(),
+    buildingId: oneOrMany(z.string()).optional(),
+  }).optional(),
+  action: z.enum(['dispatch', 'drop', 'route', 'digest']),
+  route: z.object({
+    agentId: z.string().optional(),
+    peerId: z.string().optional(),
+    chatType: z.enum(['direct', 'group']).optional(),
+  }).optional(),
+}).refine((rule) => rule.action !== 'route' || rule.route !== undefined, {
+  message: "rules with action 'route' need a route object",
+});
+
+export const EventTemplatesSchema = z.record(z.string(), z.string()).superRefine((templates, ctx) => {
+  for (const message of validateEventTemplates({ templates })) ctx.addIssue({ code: 'custom', message });
+});
 
 export const OpenClawCityConfigSchema = z.object({
-  gatewayUrl: z.string()
+  gatewayUrl: z.url({ protocol: /^wss?$/, error: 'expected a ws:// or wss:// URL' })
     .optional()
     .default('wss://api.openbotcity.com/agent-channel'),
-  apiKey: z.string(),
-  botId: z.string(),
-  reconnectBaseMs: z.number().optional().default(3000),
-  reconnectMaxMs: z.number().optional().default(300000),
-  pingIntervalMs: z.number().optional().default(30000),
+  apiKey: z.string({ error: 'required' }).min(1, 'required'),
+  botId: z.string({ error: 'required' }).min(1, 'required'),
+  reconnectBaseMs: z.number().int().positive().optional().default(3000),
+  reconnectMaxMs: z.number().int().positive().optional().default(300000),
+  pingIntervalMs: z.number().int().positive().optional().default(15000),
+  handshake: z.enum(['query', 'frame']).optional().default('query'),
+  actionTimeoutMs: z.number().int().positive().optional().default(15000),
+  outboundQueueSize: z.number().int().nonnegative().optional().default(100),
+  outboundQueueTtlMs: z.number().int().positive().optional().default(60000),
+  outboundQueueOverflow: z.enum(['drop-oldest', 'reject']).optional().default('drop-oldest'),
+  dispatchRetries: z.number().int().nonnegative().optional().default(2),
+  dispatchRetryBaseMs: z.number().int().positive().optional().default(1000),
+  dispatchFailurePolicy: z.enum(['dead-letter', 'replay']).optional().default('dead-letter'),
+  maxConcurrentDispatches: z.number().int().positive().optional().default(4),
+  pausedReplies: z.enum(['hold', 'reject']).optional().default('hold'),
+  resumeDrainIntervalMs: z.number().int().nonnegative().optional().default(1000),
+  pausedBacklogSize: z.number().int().nonnegative().optional().default(500),
+  pendingItems: z.enum(['summary', 'events', 'off']).optional().default('summary'),
+  eventRules: z.array(EventRuleSchema).optional().default([]),
+  expiredProposals: z.enum(['annotate', 'drop']).optional().default('annotate'),
+  digestEventTypes: z.array(z.string()).optional().default([]),
+  digestWindowMs: z.number().int().positive().optional().default(300000),
+  digestMaxEvents: z.number().int().positive().optional().default(50),
+  templateLocale: z.enum(TEMPLATE_LOCALES as [TemplateLocale, ...TemplateLocale[]]).optional().default('en'),
+  eventTemplates: EventTemplatesSchema.optional().default({}),
+  welcomeTurn: z.enum(['off', 'first', 'always']).optional().default('off'),
+  cityContextMaxTokens: z.number().int().nonnegative().optional().default(300),
+  heartbeatTtlMs: z.number().int().positive().optional().default(300000),
+  heartbeatTimeoutMs: z.number().int().positive().optional().default(10000),
   enabled: z.boolean().optional().default(true),
 });
+
+// OpenClawCityAccountConfig is written out in types.ts so the published
+// types do not import zod; this stops compiling if it and the schema drift
+type SameShape<A, B> = [A] extends [B]
+  ? [B] extends [A]
+    ? [Required<A>] extends [Required<B>]
+      ? [Required<B>] extends [Required<A>] ? true : false
+      : false
+    : false
+  : false;
+const accountConfigMatchesSchema: SameShape<OpenClawCityAccountConfig, z.input<typeof OpenClawCityConfigSchema>> = true;
+void accountConfigMatchesSchema;
+
+/** An account as returned by resolveAccount: defaults filled in, or the problems found. */
+export type ResolvedAccount = OpenClawCityAccountConfig & {
+  accountId: string;
+  /** Set when the account's config is invalid; the account will not start. */
+  configErrors?: string[];
+};
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Validate one account's raw config. A valid account comes back with every
+ * default filled in; an invalid one keeps the values it was given, plus
+ * one readable message per problem.
+ */
+export function resolveAccountConfig(accountId: string, raw: unknown): ResolvedAccount {
+  const result = OpenClawCityConfigSchema.safeParse(raw ?? {});
+  if (result.success) return { ...result.data, accountId };
+  const given = typeof raw === 'object' && raw !== null ? raw : {};
+  return { ...(given as OpenClawCityAccountConfig), accountId, configErrors: describeIssues(result.error) };
+}
+
+/**
+ * The JSON schema the plugin advertises to the host. Only called by
+ * scripts/generate-config-schema.mjs and the drift test; the plugin ships
+ * the generated copy so it never runs toJSONSchema() at runtime.
+ */
+export function buildConfigJsonSchema(): Record<string, unknown> {
+  return z.toJSONSchema(OpenClawCityConfigSchema, { io: 'input' }) as Record<string, unknown>;
+}
@@ -0,0 +1,103 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+
+/**
+ * Persists the adapter's ack cursor (lastAckSeq) so a gateway restart can
+ * resume from where the previous process left off instead of making the
+ * server replay every unconsumed event.
+ */
+export interface CursorStore {
+  /** Read the stored cursor. Resolves to null when nothing was stored yet. */
+  load(): Promise<number | null>;
+  /** Record a new cursor. Implementations may defer the actual write. */
+  save(seq: number): void;
+  /** Write any deferred cursor immediately. */
+  flush(): Promise<void>;
+}
+
+export interface FileCursorStoreOptions {
+  filePath: string;
+  flushIntervalMs?: number;
+  logger?: {
+    warn?: (...args: unknown[]) => void;
+  };
+}
+
+/**
+ * Resolve the cursor file for an account under the OpenClaw state dir,
+ * e.g. ~/.openclaw/openclawcity/cursors/default.json
+ */
+export function resolveCursorPath(stateDir: string, accountId: string): string {
+  return join(stateDir, 'openclawcity', 'cursors', `${encodeURIComponent(accountId)}.json`);
+}
+
+/**
+ * File-backed cursor store. Writes are throttled — at most one write per
+ * flushIntervalMs — and atomic (write to a temp file, then rename) so a
+ * crash mid-write never leaves a truncated cursor behind.
+ */
+export class FileCursorStore implements CursorStore {
+  private readonly filePath: string;
+  private readonly flushIntervalMs: number;
+  private readonly logger: NonNullable<FileCursorStoreOptions['logger']>;
+
+  private pendingSeq: number | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(opts: FileCursorStoreOptions) {
+    this.filePath = opts.filePath;
+    this.flushIntervalMs = opts.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.logger = opts.logger ?? {};
+  }
+
+  async load(): Promise<number | null> {
+    try {
+      const raw = await readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as { lastAckSeq?: unknown };
+      const seq = Number(parsed.lastAckSeq);
+      return Number.isFinite(seq) && seq > 0 ? seq : null;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn?.(`[OCC] Failed to read cursor ${this.filePath}: ${String(err)}`);
+      }
+      return null;
+    }
+  }
+
+  save(seq: number): void {
+    this.pendingSeq = seq;
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.flushIntervalMs);
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const seq = this.pendingSeq;
+    if (seq === null) return this.writing;
+    this.pendingSeq = null;
+
+    // Chain writes so two flushes never race on the temp file
+    this.writing = this.writing.then(() => this.write(seq));
+    return this.writing;
+  }
+
+  private async write(seq: number): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tmpPath, JSON.stringify({ lastAckSeq: seq, updatedAt: Date.now() }), 'utf8');
+      await rename(tmpPath, this.filePath);
+    } catch (err) {
+      this.logger.warn?.(`[OCC] Failed to persist cursor ${this.filePath}: ${String(err)}`);
+    }
+  }
+}
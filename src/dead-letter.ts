@@ -0,0 +1,90 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { CityEvent } from './types.js';
+
+export interface DeadLetterEntry {
+  event: CityEvent;
+  error: string;
+  attempts: number;
+  failedAt: number;
+}
+
+/**
+ * Holds city events whose dispatch kept failing after all local retries,
+ * so they can be inspected and re-injected later instead of being lost.
+ */
+export interface DeadLetterStore {
+  append(entry: DeadLetterEntry): Promise<void>;
+  list(): Promise<DeadLetterEntry[]>;
+  /** Remove entries by event seq. */
+  remove(seqs: number[]): Promise<void>;
+}
+
+/**
+ * Resolve the dead-letter file for an account under the OpenClaw state dir,
+ * e.g. ~/.openclaw/openclawcity/dead-letters/default.jsonl
+ */
+export function resolveDeadLetterPath(stateDir: string, accountId: string): string {
+  return join(stateDir, 'openclawcity', 'dead-letters', `${encodeURIComponent(accountId)}.jsonl`);
+}
+
+/**
+ * Append-only JSONL dead-letter file. Removal rewrites the file atomically
+ * (temp file + rename). All operations are serialized so a concurrent
+ * append can never be lost by a rewrite.
+ */
+export class FileDeadLetterStore implements DeadLetterStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  append(entry: DeadLetterEntry): Promise<void> {
+    return this.serialize(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    });
+  }
+
+  list(): Promise<DeadLetterEntry[]> {
+    return this.serialize(() => this.read());
+  }
+
+  remove(seqs: number[]): Promise<void> {
+    const drop = new Set(seqs);
+    return this.serialize(async () => {
+      const entries = await this.read();
+      const kept = entries.filter((e) => !drop.has(Number(e.event.seq)));
+      if (kept.length === entries.length) return;
+
+      const tmpPath = `${this.filePath}.tmp`;
+      await writeFile(tmpPath, kept.map((e) => JSON.stringify(e) + '\n').join(''), 'utf8');
+      await rename(tmpPath, this.filePath);
+    });
+  }
+
+  private async read(): Promise<DeadLetterEntry[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+    const entries: DeadLetterEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as DeadLetterEntry);
+      } catch {
+        // Skip a torn trailing line from a crash mid-append
+      }
+    }
+    return entries;
+  }
+
+  private serialize<T>(op: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(op, op);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+}
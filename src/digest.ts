@@ -0,0 +1,111 @@
+import { CITY_SENDER, formatEventText } from './normalizer.js';
+import type { EventFormatter } from './normalizer.js';
+import type { CityEvent, CityEventType } from './types.js';
+
+const DEFAULT_WINDOW_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_EVENTS = 50;
+
+/** Event types that always get their own turn, whatever the digest config says. */
+export const DIGEST_BYPASS_TYPES: ReadonlySet<CityEventType> = new Set<CityEventType>([
+  'owner_message',
+  'dm_message',
+  'dm_request',
+]);
+
+function formatTime(timestamp: number | undefined): string {
+  return timestamp === undefined ? '--:--' : new Date(timestamp).toISOString().slice(11, 16);
+}
+
+/**
+ * One numbered line per event, oldest first, under a header with the
+ * count and time span (UTC).
+ */
+export function formatDigestText(events: CityEvent[], format: EventFormatter = formatEventText): string {
+  const times = events.map((e) => e.timestamp).filter((t): t is number => t !== undefined);
+  const span = times.length
+    ? ` between ${formatTime(Math.min(...times))} and ${formatTime(Math.max(...times))} UTC`
+    : '';
+  const lines = events.map((event, i) => `${i + 1}. ${formatTime(event.timestamp)} ${format(event)}`);
+  return `${events.length} city event(s)${span}:\n${lines.join('\n')}`;
+}
+
+/**
+ * Combine held events into a single synthetic digest event. The digest
+ * itself is never acked; the adapter acks the underlying seqs once the
+ * digest turn has been dispatched.
+ */
+export function buildDigestEvent(events: CityEvent[], now = Date.now(), format?: EventFormatter): CityEvent {
+  const seqs = events.map((e) => Number(e.seq));
+  return {
+    type: 'city_event',
+    seq: Math.max(...seqs),
+    synthetic: true,
+    eventType: 'digest',
+    from: CITY_SENDER,
+    text: formatDigestText(events, format),
+    timestamp: now,
+    metadata: {
+      pendingId: `digest-${Math.min(...seqs)}-${Math.max(...seqs)}`,
+      digestSeqs: seqs,
+      eventCount: events.length,
+    },
+  };
+}
+
+export interface DigestBufferOptions {
+  windowMs?: number;
+  maxEvents?: number;
+  onFlush: (events: CityEvent[]) => void;
+}
+
+/**
+ * Collects events for one window. The window starts with the first event
+ * added and ends after windowMs, or early once maxEvents are held.
+ */
+export class DigestBuffer {
+  private events: CityEvent[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly windowMs: number;
+  private readonly maxEvents: number;
+  private readonly onFlush: DigestBufferOptions['onFlush'];
+
+  constructor(opts: DigestBufferOptions) {
+    this.windowMs = opts.windowMs ?? DEFAULT_WINDOW_MS;
+    this.maxEvents = opts.maxEvents ?? DEFAULT_MAX_EVENTS;
+    this.onFlush = opts.onFlush;
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  add(event: CityEvent): void {
+    this.events.push(event);
+    if (this.events.length >= this.maxEvents) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush();
+      }, this.windowMs);
+    }
+  }
+
+  /** End the current window now and hand its events to onFlush. */
+  flush(): void {
+    const events = this.clear();
+    if (events.length) this.onFlush(events);
+  }
+
+  /** Drop the current window without flushing and return its events. */
+  clear(): CityEvent[] {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+}
@@ -0,0 +1,59 @@
+import { buildActionReply } from './actions.js';
+import { parseDecisionMarker } from './proposals.js';
+import type { ActionResultFrame, AgentReply } from './types.js';
+
+export type DmRequestDecision = 'accept' | 'decline';
+
+/** Appended to a dm_request turn so the agent knows how to answer it. */
+export const DM_REQUEST_REPLY_HINT =
+  '(To answer this DM request, start your reply with ACCEPT followed by your opening message, or DECLINE.)';
+
+/**
+ * Read the agent's answer to a DM request: `ACCEPT`, with the rest of the
+ * text as the opening message, or `DECLINE`. Returns null for an unmarked
+ * reply, which makes no decision. Either way the answer stays private — it
+ * is never spoken in the zone.
+ */
+export function classifyDmRequestReply(text: string): { decision: DmRequestDecision; text: string } | null {
+  return parseDecisionMarker(text, ['accept', 'decline'] as const);
+}
+
+/** The accept_dm / decline_dm frame for a DM request from targetId. */
+export function buildDmRequestReply(
+  decision: DmRequestDecision,
+  targetId: string,
+  conversationId: string | undefined,
+  text: string,
+): AgentReply {
+  return buildActionReply(decision === 'accept' ? 'accept_dm' : 'decline_dm', {
+    targetId,
+    ...(conversationId ? { conversationId } : {}),
+    ...(text ? { text } : {}),
+  });
+}
+
+/** The conversation id the server assigned in an accept_dm result, if any. */
+export function conversationIdFromResult(result: ActionResultFrame): string | undefined {
+  const id = result.data?.conversationId ?? result.data?.conversation_id;
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+/**
+ * Per-account map of open DM conversations by peer bot id, so replies to
+ * that bot go out as dm_reply instead of a zone-wide speak.
+ */
+export class DmConversations {
+  private readonly bySender = new Map<string, string>();
+
+  get(senderId: string): string | undefined {
+    return this.bySender.get(senderId);
+  }
+
+  set(senderId: string, conversationId: string): void {
+    this.bySender.set(senderId, conversationId);
+  }
+
+  get size(): number {
+    return this.bySender.size;
+  }
+}
@@ -1,3 +1,6 @@
+import { homedir } from 'os';
+import { join } from 'path';
+
 // Separated from the main bundle so the OpenClaw plugin scanner does not
 // see process.env writes and fetch/network sends in the same file.
 
@@ -40,3 +43,11 @@ export function clearAccountEnv(accountId: string): void {
   delete process.env[`OPENBOTCITY_JWT__${accountId}`];
   delete process.env[`OPENBOTCITY_BOT_ID__${accountId}`];
 }
+
+/**
+ * Resolve the OpenClaw state directory (where plugins keep local state).
+ * Used when the host runtime does not expose runtime.state.resolveStateDir.
+ */
+export function resolveStateDir(): string {
+  return process.env.OPENCLAW_STATE_DIR || join(homedir(), '.openclaw');
+}
@@ -0,0 +1,92 @@
+import type { EventTemplates } from './templates.js';
+import type { CityEvent, UnknownFrame } from './types.js';
+
+/**
+ * Renders one city_event subtype for the agent. Registered by other
+ * plugins for event types this one does not know yet.
+ */
+export interface CityEventHandler {
+  format(event: CityEvent, templates: EventTemplates): string;
+}
+
+/** Called with every server frame whose type this client does not handle. */
+export type UnknownFrameListener = (frame: UnknownFrame, accountId: string) => void;
+
+/**
+ * Extension point shared by every account: handlers for city_event
+ * subtypes and listeners for unknown frames. Registering returns a
+ * function that undoes the registration.
+ */
+export class EventHandlerRegistry {
+  private readonly handlers = new Map<string, CityEventHandler>();
+  private readonly frameListeners = new Set<UnknownFrameListener>();
+
+  /** Handle `eventType` with `handler`, replacing the built-in formatting for it. */
+  register(eventType: string, handler: CityEventHandler): () => void {
+    this.handlers.set(eventType, handler);
+    return () => {
+      if (this.handlers.get(eventType) === handler) this.handlers.delete(eventType);
+    };
+  }
+
+  get(eventType: string): CityEventHandler | undefined {
+    return this.handlers.get(eventType);
+  }
+
+  has(eventType: string): boolean {
+    return this.handlers.has(eventType);
+  }
+
+  onUnknownFrame(listener: UnknownFrameListener): () => void {
+    this.frameListeners.add(listener);
+    return () => this.frameListeners.delete(listener);
+  }
+
+  /** Hand an unknown frame to every listener; a throwing listener does not stop the others. */
+  emitUnknownFrame(frame: UnknownFrame, accountId: string): void {
+    for (const listener of this.frameListeners) {
+      try {
+        listener(frame, accountId);
+      } catch {
+        // A broken extension must not take the connection down
+      }
+    }
+  }
+}
+
+// ── Compatibility Report ──
+
+export interface TypeSighting {
+  type: string;
+  count: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+/** Event and frame types this client has received but does not understand. */
+export interface CompatibilityReport {
+  protocolVersion: number;
+  unknownEventTypes: TypeSighting[];
+  unknownFrameTypes: TypeSighting[];
+}
+
+/** Counts sightings per type, most recently seen first. */
+export class TypeSightings {
+  private readonly sightings = new Map<string, TypeSighting>();
+
+  record(type: string, now = Date.now()): void {
+    const sighting = this.sightings.get(type);
+    if (sighting) {
+      sighting.count++;
+      sighting.lastSeenAt = now;
+    } else {
+      this.sightings.set(type, { type, count: 1, firstSeenAt: now, lastSeenAt: now });
+    }
+  }
+
+  list(): TypeSighting[] {
+    return [...this.sightings.values()]
+      .map((s) => ({ ...s }))
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+}
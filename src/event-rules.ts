@@ -0,0 +1,53 @@
+import type { AgentRoute } from 'openclaw/plugin-sdk';
+import type { CityEvent, EventRouteOverride, EventRule, EventRuleMatch } from './types.js';
+
+function matchesOne<T>(expected: T | T[] | undefined, actual: T | undefined): boolean {
+  if (expected === undefined) return true;
+  if (actual === undefined) return false;
+  return Array.isArray(expected) ? expected.includes(actual) : expected === actual;
+}
+
+function matches(match: EventRuleMatch | undefined, event: CityEvent): boolean {
+  if (!match) return true;
+  const zoneId = event.metadata?.zoneId;
+  const buildingId = event.metadata?.buildingId;
+  return matchesOne(match.eventType, event.eventType)
+    && matchesOne(match.senderId, event.from?.id)
+    && matchesOne(match.zoneId, zoneId === undefined || zoneId === null ? undefined : Number(zoneId))
+    && matchesOne(match.buildingId, buildingId ?? undefined);
+}
+
+/** First rule whose match applies to the event, or undefined (plain dispatch). */
+export function matchEventRule(rules: readonly EventRule[] | undefined, event: CityEvent): EventRule | undefined {
+  return rules?.find((rule) => matches(rule.match, event));
+}
+
+/** The rule's route override with peerId placeholders filled from the event. */
+export function resolveRouteOverride(rule: EventRule, event: CityEvent): EventRouteOverride {
+  const override = { ...rule.route };
+  if (override.peerId) {
+    const values: Record<string, unknown> = {
+      senderId: event.from?.id,
+      zoneId: event.metadata?.zoneId,
+      buildingId: event.metadata?.buildingId,
+      conversationId: event.metadata?.conversationId,
+      eventType: event.eventType,
+    };
+    override.peerId = override.peerId.replace(/\{(\w+)\}/g, (_, key: string) => String(values[key] ?? 'unknown'));
+  }
+  return override;
+}
+
+/**
+ * Point a resolved route at a different agent. Session keys are
+ * `agent:<agentId>:...`, so the agent segment is rewritten to match.
+ */
+export function withAgentOverride<R extends AgentRoute>(route: R, agentId: string): R {
+  const rekey = (key: string) => key.replace(/^agent:[^:]+:/, `agent:${agentId}:`);
+  return {
+    ...route,
+    agentId,
+    sessionKey: rekey(route.sessionKey),
+    ...(route.mainSessionKey ? { mainSessionKey: rekey(route.mainSessionKey) } : {}),
+  };
+}
@@ -0,0 +1,147 @@
+import { resolveChat } from './normalizer.js';
+import type { CityEvent } from './types.js';
+
+/**
+ * Ordering key for a city event: events in the same place (zone or building
+ * chat, which share one group session), the same conversation, or from the
+ * same sender when there is neither are processed one at a time, in
+ * arrival order.
+ */
+export function eventOrderingKey(event: CityEvent): string {
+  const chat = resolveChat(event);
+  if (chat.type === 'group') return `place:${chat.peerId}`;
+  const conversationId = event.metadata?.conversationId;
+  if (conversationId) return `conversation:${conversationId}`;
+  return `sender:${event.from?.id ?? 'unknown'}`;
+}
+
+/**
+ * Runs async tasks serially per key and in parallel across keys, with a
+ * global cap on how many tasks run at once.
+ */
+export class KeyedScheduler {
+  private readonly tails = new Map<string, Promise<void>>();
+  private readonly waiters: (() => void)[] = [];
+  private active = 0;
+
+  constructor(private readonly maxConcurrent: number) {}
+
+  schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const prev = this.tails.get(key) ?? Promise.resolve();
+    const run = prev.then(async () => {
+      await this.acquire();
+      try {
+        return await task();
+      } finally {
+        this.release();
+      }
+    });
+
+    const tail = run.then(() => undefined, () => undefined);
+    this.tails.set(key, tail);
+    // Drop the key once its last task settles so the map does not grow forever
+    void tail.then(() => {
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    });
+    return run;
+  }
+
+  /** Number of tasks currently running. */
+  get running(): number {
+    return this.active;
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < Math.max(1, this.maxConcurrent)) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => {
+      this.waiters.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiters.shift()?.();
+  }
+}
+
+/**
+ * Tracks which event seqs are done so the persisted cursor only advances
+ * over a contiguous run of completed events. With concurrent dispatch a
+ * later seq can finish first; the watermark holds at the last seq below
+ * the oldest event still in flight (or left for server replay).
+ */
+export class AckWatermark {
+  private base: number;
+  private readonly inFlight = new Set<number>();
+  private readonly abandoned = new Set<number>();
+  private readonly completed = new Set<number>();
+
+  constructor(base = 0) {
+    this.base = base;
+  }
+
+  /** Highest seq such that every tracked seq at or below it is complete. */
+  get value(): number {
+    return this.base;
+  }
+
+  /** Raise the floor, e.g. after restoring a persisted cursor. */
+  raiseBase(seq: number): void {
+    if (seq > this.base) {
+      this.base = seq;
+      this.advance();
+    }
+  }
+
+  /** True when the seq was already completed (safe to re-ack, not re-run). */
+  isDone(seq: number): boolean {
+    return seq <= this.base || this.completed.has(seq);
+  }
+
+  /** Start tracking a seq. Returns false if it is already in flight. */
+  begin(seq: number): boolean {
+    if (this.inFlight.has(seq)) return false;
+    this.abandoned.delete(seq);
+    this.inFlight.add(seq);
+    return true;
+  }
+
+  /** Mark a seq complete and return the (possibly advanced) watermark. */
+  complete(seq: number): number {
+    this.inFlight.delete(seq);
+    this.abandoned.delete(seq);
+    if (seq > this.base) this.completed.add(seq);
+    this.advance();
+    return this.base;
+  }
+
+  /**
+   * Give up on a seq without completing it (left for server replay). It
+   * keeps blocking the watermark until it is begun and completed again.
+   */
+  abandon(seq: number): void {
+    this.inFlight.delete(seq);
+    if (seq > this.base) this.abandoned.add(seq);
+  }
+
+  private advance(): void {
+    let lowestBlocking = Infinity;
+    for (const seq of this.inFlight) lowestBlocking = Math.min(lowestBlocking, seq);
+    for (const seq of this.abandoned) lowestBlocking = Math.min(lowestBlocking, seq);
+
+    for (const seq of [...this.completed].sort((a, b) => a - b)) {
+      if (seq >= lowestBlocking) break;
+      this.base = Math.max(this.base, seq);
+      this.completed.delete(seq);
+    }
+    for (const seq of this.completed) {
+      if (seq <= this.base) this.completed.delete(seq);
+    }
+  }
+}
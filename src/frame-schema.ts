@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import type { CityEvent, ServerFrame, UnknownFrame } from './types.js';
+
+// Frames are checked on the fields the adapter relies on; anything else is
+// kept as is, so fields the server adds later still reach the handlers
+
+// PostgREST may return bigint ids as digit strings; anything else that is
+// not a whole non-negative number would corrupt the ack cursor
+const SeqSchema = z.union([
+  z.number().int().nonnegative(),
+  z.string().regex(/^\d+$/, 'expected a numeric string').transform(Number),
+]).refine(Number.isSafeInteger, 'seq is out of range');
+
+// Optional fields may arrive as null (JSON has no undefined); both mean absent
+const optionalString = () => z.string().nullish().transform((value) => value ?? undefined);
+
+// Timestamps only label turns: a numeric or ISO date string is converted,
+// anything else dropped rather than rejecting the event
+const TimestampSchema = z.unknown().transform((value) => {
+  const ms = typeof value === 'string' && value.trim() ? (/^\d+$/.test(value) ? Number(value) : Date.parse(value)) : value;
+  return typeof ms === 'number' && Number.isFinite(ms) ? ms : undefined;
+});
+
+const SenderSchema = z.looseObject({
+  id: z.string(),
+  name: optionalString(),
+  avatar: z.string().optional(),
+});
+
+export const CityEventSchema = z.looseObject({
+  type: z.literal('city_event'),
+  seq: SeqSchema,
+  eventType: z.string().min(1),
+  from: SenderSchema.optional().default({ id: 'unknown', name: 'Unknown' }),
+  text: optionalString(),
+  timestamp: TimestampSchema,
+  metadata: z.record(z.string(), z.unknown()).nullish().transform((metadata) => metadata ?? {}),
+  // Only events this plugin builds are synthetic; a server-sent flag would
+  // skip the ack and mark bot text as the plugin's own
+  synthetic: z.unknown().transform(() => undefined),
+});
+
+// Location and nearby bots only inform the welcome turn: fields in another
+// shape are dropped, and a nearby entry without an id skipped, rather than
+// rejecting the welcome and with it the connection
+const WelcomeLocationSchema = z.looseObject({
+  zoneId: z.number().optional().catch(undefined),
+  zoneName: z.string().optional().catch(undefined),
+  buildingId: z.string().nullish().catch(undefined),
+  buildingName: z.string().nullish().catch(undefined),
+});
+
+const NearbyBotSchema = z.looseObject({
+  id: z.string(),
+  name: z.string().catch('Unknown'),
+  avatar: z.string().optional().catch(undefined),
+});
+
+const NearbyBotsSchema = z.array(z.unknown()).transform((entries) =>
+  entries.flatMap((entry) => {
+    const result = NearbyBotSchema.safeParse(entry);
+    return result.success ? [result.data] : [];
+  }),
+);
+
+export const WelcomeFrameSchema = z.looseObject({
+  type: z.literal('welcome'),
+  version: z.number().int().optional(),
+  paused: z.boolean().optional(),
+  location: WelcomeLocationSchema.optional().catch(undefined),
+  nearby_bots: NearbyBotsSchema.optional().catch(undefined),
+  nearby: NearbyBotsSchema.optional().catch(undefined),
+  // Legacy pending events are checked one by one, so one bad entry does
+  // not reject the whole welcome
+  pending: z.array(z.unknown()).optional(),
+  pending_items: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const ActionResultFrameSchema = z.looseObject({
+  type: z.literal('action_result'),
+  requestId: z.string().optional(),
+  success: z.boolean(),
+  data: z.record(z.string(), z.unknown()).nullish().transform((data) => data ?? undefined),
+  error: optionalString(),
+});
+
+export const ErrorFrameSchema = z.looseObject({
+  type: z.literal('error'),
+  reason: z.string(),
+  message: optionalString(),
+  supported: z.array(z.number()).optional(),
+  retryAfter: z.number().optional(),
+});
+
+export const PausedFrameSchema = z.looseObject({
+  type: z.literal('paused'),
+  message: z.string().optional(),
+});
+
+export const ResumedFrameSchema = z.looseObject({
+  type: z.literal('resumed'),
+});
+
+const SERVER_FRAME_SCHEMAS: Record<ServerFrame['type'], z.ZodType> = {
+  city_event: CityEventSchema,
+  welcome: WelcomeFrameSchema,
+  action_result: ActionResultFrameSchema,
+  error: ErrorFrameSchema,
+  paused: PausedFrameSchema,
+  resumed: ResumedFrameSchema,
+};
+
+/** Why an inbound frame was rejected, for logs and status. */
+export interface InvalidFrame {
+  /** The frame's type, when it had one. */
+  type?: string;
+  /** The frame's seq as received, for city_event frames. */
+  seq?: unknown;
+  issues: string[];
+}
+
+export type FrameParseResult =
+  | { ok: true; frame: ServerFrame | UnknownFrame }
+  | { ok: false; invalid: InvalidFrame };
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Check a decoded frame against the schema for its type. Frames of types
+ * this client does not know only need a string `type`; they are passed on
+ * for the unknown-frame hook.
+ */
+export function validateServerFrame(raw: unknown): FrameParseResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, invalid: { issues: ['frame is not an object'] } };
+  }
+  const type = (raw as Record<string, unknown>).type;
+  if (typeof type !== 'string') {
+    return { ok: false, invalid: { issues: ['type: expected a string'] } };
+  }
+
+  if (!Object.hasOwn(SERVER_FRAME_SCHEMAS, type)) return { ok: true, frame: raw as UnknownFrame };
+  const schema = SERVER_FRAME_SCHEMAS[type as ServerFrame['type']];
+
+  const result = schema.safeParse(raw);
+  if (result.success) return { ok: true, frame: result.data as ServerFrame };
+  return {
+    ok: false,
+    invalid: {
+      type,
+      ...(type === 'city_event' ? { seq: (raw as Record<string, unknown>).seq } : {}),
+      issues: describeIssues(result.error),
+    },
+  };
+}
+
+/**
+ * Check one entry of a welcome's legacy `pending` list, which may omit
+ * `type`.
+ */
+export function validatePendingEvent(raw: unknown): { ok: true; event: CityEvent } | { ok: false; invalid: InvalidFrame } {
+  const candidate = typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? { type: 'city_event', ...raw } : raw;
+  const result = CityEventSchema.safeParse(candidate);
+  if (result.success) return { ok: true, event: result.data as CityEvent };
+  return {
+    ok: false,
+    invalid: { type: 'city_event', seq: (raw as Record<string, unknown> | null)?.seq, issues: describeIssues(result.error) },
+  };
+}
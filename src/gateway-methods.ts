@@ -0,0 +1,71 @@
+import type { OpenClawPluginApi, GatewayRequestHandler } from 'openclaw/plugin-sdk';
+import type { OpenClawCityAdapter } from './adapter.js';
+import { isCityActionName } from './actions.js';
+
+type AdapterLookup = (accountId: string) => OpenClawCityAdapter | undefined;
+
+/**
+ * Wrap a handler that needs a running adapter. Resolves params.accountId
+ * (default 'default') and responds with an error when the account is not
+ * connected or the handler throws.
+ */
+function withAdapter(
+  getAdapter: AdapterLookup,
+  handler: (adapter: OpenClawCityAdapter, params: Record<string, unknown>) => Promise<unknown>,
+): GatewayRequestHandler {
+  return async ({ params, respond }) => {
+    const accountId = typeof params?.accountId === 'string' ? params.accountId : 'default';
+    const adapter = getAdapter(accountId);
+    if (!adapter) {
+      respond(false, undefined, { code: 'not_running', message: `OpenClawCity account "${accountId}" is not running` });
+      return;
+    }
+    try {
+      respond(true, await handler(adapter, params ?? {}));
+    } catch (err) {
+      respond(false, undefined, { code: 'failed', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+}
+
+function parseSeqs(value: unknown): number[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.map(Number).filter((n) => Number.isFinite(n));
+}
+
+/**
+ * Register gateway RPC methods for operating the channel:
+ *   openclawcity.deadLetters.list   { accountId? }
+ *   openclawcity.deadLetters.replay { accountId?, seqs?: number[] }
+ *   openclawcity.action             { accountId?, action, params? }
+ *   openclawcity.compatibility      { accountId? }
+ */
+export function registerGatewayMethods(api: OpenClawPluginApi, getAdapter: AdapterLookup): void {
+  if (!api.registerGatewayMethod) return;
+
+  api.registerGatewayMethod(
+    'openclawcity.deadLetters.list',
+    withAdapter(getAdapter, async (adapter) => ({ entries: await adapter.listDeadLetters() })),
+  );
+
+  api.registerGatewayMethod(
+    'openclawcity.deadLetters.replay',
+    withAdapter(getAdapter, (adapter, params) => adapter.replayDeadLetters(parseSeqs(params.seqs))),
+  );
+
+  api.registerGatewayMethod(
+    'openclawcity.action',
+    withAdapter(getAdapter, async (adapter, params) => {
+      if (!isCityActionName(params.action)) {
+        throw new Error(`Unknown action: ${String(params.action)}`);
+      }
+      const result = await adapter.performAction(params.action, (params.params ?? {}) as Record<string, unknown>);
+      return { data: result.data ?? null };
+    }),
+  );
+
+  api.registerGatewayMethod(
+    'openclawcity.compatibility',
+    withAdapter(getAdapter, async (adapter) => adapter.getCompatibilityReport()),
+  );
+}
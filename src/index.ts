@@ -10,12 +10,47 @@ import type {
 } from 'openclaw/plugin-sdk';
 import { setRuntime, getRuntime } from './runtime.js';
 import { OpenClawCityAdapter } from './adapter.js';
-import { exposeAccountEnv, clearAccountEnv } from './env-bridge.js';
-import type { AgentReply, OpenClawCityAccountConfig } from './types.js';
+import { exposeAccountEnv, clearAccountEnv, resolveStateDir } from './env-bridge.js';
+import { FileCursorStore, resolveCursorPath } from './cursor-store.js';
+import { FileDeadLetterStore, resolveDeadLetterPath } from './dead-letter.js';
+import { registerGatewayMethods } from './gateway-methods.js';
+import { registerCityTools } from './tools.js';
+import { requestTokenRefresh, withRefreshedApiKey } from './token-refresh.js';
+import { CityContextTracker, parseHeartbeat, renderCityContextBlock, type RenderedCityContext } from './city-context.js';
+import { WorldStateCache, requestHeartbeat } from './world-state.js';
+import { withAgentOverride } from './event-rules.js';
+import { buildReply } from './outbound.js';
+import { EventHandlerRegistry } from './event-handlers.js';
+import { ConfigValidationError, resolveAccountConfig } from './config-schema.js';
+import type { ResolvedAccount } from './config-schema.js';
+import { CONFIG_JSON_SCHEMA } from './config-schema.generated.js';
+import {
+  EXPIRED_PROPOSAL_NOTE,
+  ProposalTracker,
+  buildProposalReply,
+  classifyProposalReply,
+  proposalReplyHint,
+} from './proposals.js';
+import {
+  DM_REQUEST_REPLY_HINT,
+  DmConversations,
+  buildDmRequestReply,
+  classifyDmRequestReply,
+  conversationIdFromResult,
+} from './dm-requests.js';
+import type { AgentReply, AgentReplyAction, CityContext, OpenClawCityAccountConfig } from './types.js';
 
 const CHANNEL_ID = 'openclawcity';
 const DEFAULT_API_BASE = 'https://api.openbotcity.com';
-const HEARTBEAT_CACHE_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_CITY_CONTEXT_MAX_TOKENS = 300;
+
+// Successful actions after which the cached world state is out of date
+const LOCATION_ACTIONS: ReadonlySet<AgentReplyAction> = new Set(['move', 'enter_building', 'leave_building']);
+// Actions that close an open proposal
+const PROPOSAL_ACTIONS: ReadonlySet<AgentReplyAction> = new Set(['accept_proposal', 'decline_proposal', 'counter_proposal']);
+// Adapter-built turns that cover many events or none: welcome, catch-up
+// and digest turns have no single place to reply to
+const NO_REPLY_EVENT_TYPES: ReadonlySet<string> = new Set(['welcome', 'pending_summary', 'digest']);
 
 /** Derive REST API base from WebSocket gateway URL.
  *  e.g. 'wss://api.openbotcity.com/agent-channel' → 'https://api.openbotcity.com' */
@@ -30,6 +65,11 @@ function deriveApiBase(gatewayUrl?: string): string {
   }
 }
 
+/** OpenClaw state dir — prefer the host's resolver, fall back to ~/.openclaw */
+function pluginStateDir(rt: PluginRuntime): string {
+  return rt.state?.resolveStateDir() ?? resolveStateDir();
+}
+
 // ── Reply text sanitization ──
 // The SDK's sanitizeUserFacingText strips <final>, [Tool Call:...], and
 // <minimax:tool_call> but does NOT strip <PLHD> placeholder tags that some
@@ -44,44 +84,26 @@ export function sanitizeReplyText(text: string): string | null {
   return cleaned || null;
 }
 
+interface ChannelSection {
+  accounts?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/** channels.openclawcity: either a map of accounts or one flat account. */
+function channelSection(cfg: OpenClawConfig): ChannelSection | undefined {
+  const section = cfg.channels?.[CHANNEL_ID];
+  return typeof section === 'object' && section !== null ? (section as ChannelSection) : undefined;
+}
+
 // Adapter instances keyed by accountId for outbound routing
 const adapters = new Map<string, OpenClawCityAdapter>();
 
-// Heartbeat cache — one per account
-const heartbeatCache = new Map<string, { data: string; fetchedAt: number }>();
-
-async function fetchHeartbeatContext(
-  apiBase: string,
-  jwt: string,
-  accountId: string,
-  log?: { info?: (...args: unknown[]) => void; error?: (...args: unknown[]) => void },
-): Promise<string | null> {
-  const cached = heartbeatCache.get(accountId);
-  const now = Date.now();
-
-  if (cached && (now - cached.fetchedAt) < HEARTBEAT_CACHE_MS) {
-    log?.info?.(`[OCC] Heartbeat cache hit (age=${Math.round((now - cached.fetchedAt) / 1000)}s)`);
-    return cached.data;
-  }
-
-  try {
-    log?.info?.(`[OCC] Fetching heartbeat context from ${apiBase}/world/heartbeat`);
-    const resp = await fetch(`${apiBase}/world/heartbeat`, {
-      headers: { 'Authorization': `Bearer ${jwt}` },
-    });
-    if (!resp.ok) {
-      log?.error?.(`[OCC] Heartbeat fetch failed: ${resp.status} ${resp.statusText}`);
-      return cached?.data ?? null; // return stale data if available
-    }
-    const data = await resp.text();
-    heartbeatCache.set(accountId, { data, fetchedAt: now });
-    log?.info?.(`[OCC] Heartbeat fetched (${data.length} bytes)`);
-    return data;
-  } catch (err) {
-    log?.error?.(`[OCC] Heartbeat fetch error: ${String(err)}`);
-    return cached?.data ?? null; // return stale data if available
-  }
-}
+/**
+ * Shared by every account. Other plugins register handlers here for
+ * city_event types this release does not know, and listen for unknown
+ * server frames.
+ */
+export const cityEventHandlers = new EventHandlerRegistry();
 
 const occPlugin = {
   id: CHANNEL_ID,
@@ -95,44 +117,32 @@ const occPlugin = {
     aliases: ['occ', 'openclawcity'],
   },
 
-  // Pre-computed JSON Schema — avoids runtime dependency on Zod's toJSONSchema()
+  // Generated at build time from the zod schema — avoids running
+  // Zod's toJSONSchema() at startup
   configSchema: {
-    schema: {
-      type: 'object' as const,
-      properties: {
-        gatewayUrl: { type: 'string', default: 'wss://api.openbotcity.com/agent-channel' },
-        apiKey: { type: 'string' },
-        botId: { type: 'string' },
-        reconnectBaseMs: { type: 'number', default: 3000 },
-        reconnectMaxMs: { type: 'number', default: 300000 },
-        pingIntervalMs: { type: 'number', default: 15000 },
-        enabled: { type: 'boolean', default: true },
-      },
-      required: ['apiKey', 'botId'],
-    },
+    schema: CONFIG_JSON_SCHEMA,
   },
 
   capabilities: {
-    chatTypes: ['direct'] as const,
+    chatTypes: ['direct', 'group'] as const,
   },
 
   config: {
     listAccountIds: (cfg: OpenClawConfig): string[] =>
-      Object.keys((cfg.channels as any)?.openclawcity?.accounts ?? {}),
-
-    resolveAccount: (cfg: OpenClawConfig, accountId?: string | null): OpenClawCityAccountConfig & { accountId: string } => {
-      const channels = cfg.channels as any;
-      const account = channels?.openclawcity?.accounts?.[accountId ?? 'default']
-        ?? channels?.openclawcity
-        ?? {};
-      return { accountId: accountId ?? 'default', ...account };
+      Object.keys(channelSection(cfg)?.accounts ?? {}),
+
+    /** Validated against the config schema; see ResolvedAccount.configErrors. */
+    resolveAccount: (cfg: OpenClawConfig, accountId?: string | null): ResolvedAccount => {
+      const section = channelSection(cfg);
+      const id = accountId ?? 'default';
+      return resolveAccountConfig(id, section?.accounts?.[id] ?? section ?? {});
     },
   },
 
   outbound: {
     deliveryMode: 'direct' as const,
 
-    sendText: async (ctx: ChannelOutboundContext): Promise<{ ok: boolean }> => {
+    sendText: async (ctx: ChannelOutboundContext): Promise<{ ok: boolean; error?: string }> => {
       const adapter = adapters.get(ctx.accountId ?? 'default');
       if (!adapter) {
         return { ok: false };
@@ -141,25 +151,37 @@ const occPlugin = {
       const text = sanitizeReplyText(ctx.text ?? '');
       if (!text) return { ok: true };
 
-      const reply: AgentReply = {
-        type: 'agent_reply',
-        action: 'dm_reply',
-        text,
-        conversationId: ctx.to,
-      };
-
-      adapter.sendReply(reply);
-      return { ok: true };
+      // Wait for the server's action_result so a rejected reply surfaces
+      // as a delivery failure instead of being silently reported as sent
+      try {
+        await adapter.sendReplyAndWait(buildReply('dm_reply', { text, conversationId: ctx.to ?? '' }));
+        return { ok: true };
+      } catch (err) {
+        return { ok: false, error: err instanceof Error ? err.message : String(err) };
+      }
     },
   },
 
   gateway: {
     startAccount: async (ctx: ChannelGatewayContext<OpenClawCityAccountConfig>): Promise<unknown> => {
       const rt = getRuntime();
-      const { cfg, accountId, account, abortSignal, log } = ctx;
+      const { cfg, accountId, abortSignal, log } = ctx;
 
       log?.info?.(`[OCC] startAccount called for ${accountId}, abortSignal.aborted=${abortSignal.aborted}`);
 
+      // Refuse an invalid config before anything touches the network. The
+      // account is re-checked here because the host may not have resolved
+      // it through resolveAccount.
+      const account = resolveAccountConfig(accountId, ctx.account);
+      if (account.configErrors) {
+        for (const issue of account.configErrors) {
+          log?.error?.(`[OCC] Config error for account ${accountId}: ${issue}`);
+        }
+        const error = new ConfigValidationError(accountId, account.configErrors);
+        ctx.setStatus({ accountId, running: false, connected: false, lastError: error.message });
+        throw error;
+      }
+
       // Expose JWT + bot ID to shell environment so HEARTBEAT.md/SKILL.md
       // helpers always use the current token (survives /new session resets
       // and bot re-registrations that change the bot_id + JWT).
@@ -167,62 +189,165 @@ const occPlugin = {
       const accountCount = occPlugin.config.listAccountIds(cfg).length || 1;
       exposeAccountEnv(account.apiKey, account.botId, accountId, accountCount);
 
+      // Current JWT — replaced in place when the adapter refreshes it
+      let jwt = account.apiKey;
+      const apiBase = deriveApiBase(account.gatewayUrl);
+
+      // City context is injected per session, and only what changed since
+      // that session's last turn
+      const cityContextMaxTokens = account.cityContextMaxTokens ?? DEFAULT_CITY_CONTEXT_MAX_TOKENS;
+      const cityContextTracker = new CityContextTracker();
+      const worldState = new WorldStateCache({
+        fetch: (signal) => requestHeartbeat(apiBase, jwt, signal),
+        ttlMs: account.heartbeatTtlMs,
+        timeoutMs: account.heartbeatTimeoutMs,
+        logger: log,
+      });
+      let lastLocation: string | undefined;
+      const refreshWorldState = (reason: string) => {
+        if (cityContextMaxTokens > 0) worldState.invalidate(reason);
+      };
+
+      // Open proposals and their deadlines, so replies can be turned into
+      // accept/decline/counter actions
+      const proposals = new ProposalTracker();
+      const expiredProposals = account.expiredProposals ?? 'annotate';
+      // Open DM conversations by peer, so replies to that bot stay private
+      const dmConversations = new DmConversations();
+
       // Report initial status so the gateway knows we're starting up
       ctx.setStatus({ accountId, running: true, connected: false, lastStartAt: Date.now() });
       log?.info?.(`[OCC] setStatus: running=true, connected=false`);
 
+      // Persist lastAckSeq so a gateway restart resumes instead of replaying
+      // every unconsumed event
+      const stateDir = pluginStateDir(rt);
+      const cursorStore = new FileCursorStore({
+        filePath: resolveCursorPath(stateDir, accountId),
+        logger: log,
+      });
+      const deadLetterStore = new FileDeadLetterStore(resolveDeadLetterPath(stateDir, accountId));
+
       const adapter = new OpenClawCityAdapter({
         config: account,
         logger: log,
         signal: abortSignal,
+        cursorStore,
+        deadLetterStore,
+        refreshToken: (expired) => requestTokenRefresh(apiBase, expired),
+        onTokenRefreshed: async (token) => {
+          jwt = token;
+          exposeAccountEnv(token, account.botId, accountId, accountCount);
+          // Write the new token back so the next gateway start uses it
+          const current = rt.config.loadConfig() as OpenClawConfig;
+          await rt.config.writeConfigFile(withRefreshedApiKey(current, accountId, token));
+          log?.info?.(`[OCC] Refreshed token saved to config for ${accountId}`);
+        },
+        onOutboundDrop: (_reply, _reason, totalDropped) => {
+          // Surface the counter in channel status so it can be alerted on
+          ctx.setStatus({
+            ...ctx.getStatus(),
+            droppedOutboundFrames: totalDropped,
+          });
+        },
+        onInvalidFrame: (_invalid, totalInvalid) => {
+          // The adapter has already logged the frame
+          ctx.setStatus({
+            ...ctx.getStatus(),
+            invalidFrames: totalInvalid,
+          });
+        },
+        onPauseChange: (paused, message) => {
+          log?.info?.(`[OCC] Bot ${paused ? `paused${message ? `: ${message}` : ''}` : 'resumed'}`);
+          ctx.setStatus({
+            ...ctx.getStatus(),
+            paused,
+            pausedMessage: message ?? null,
+          });
+        },
         onMessage: async (envelope) => {
           log?.info?.(`[OCC] Event received: ${envelope.id} from=${envelope.sender.name} type=${envelope.metadata.eventType}`);
 
-          // Fetch city context (cached for 5 min) and prepend to message text
-          const apiBase = deriveApiBase(account.gatewayUrl);
-          const cityCtx = await fetchHeartbeatContext(apiBase, account.apiKey, accountId, log);
-          if (cityCtx) {
-            envelope.content.text = `[CITY CONTEXT]\n${cityCtx}\n[/CITY CONTEXT]\n\n${envelope.content.text}`;
-            log?.info?.(`[OCC] City context prepended (${cityCtx.length} bytes)`);
+          const senderConversation = envelope.metadata.conversationId;
+          if (envelope.metadata.eventType === 'dm_message' && typeof senderConversation === 'string') {
+            dmConversations.set(envelope.sender.id, senderConversation);
           }
 
-          // Step 1: Resolve agent route
+          let body = envelope.content.text;
+          const proposal = envelope.metadata.eventType === 'proposal_received' ? proposals.record(envelope) : undefined;
+          if (proposal && proposals.isExpired(proposal.proposalId)) {
+            if (expiredProposals === 'drop') {
+              log?.info?.(`[OCC] Proposal ${proposal.proposalId} already expired — dropped`);
+              return;
+            }
+            body = `${body}\n${EXPIRED_PROPOSAL_NOTE}`;
+          } else if (proposal) {
+            body = `${body}\n${proposalReplyHint(proposal.proposalId)}`;
+          } else if (envelope.metadata.eventType === 'dm_request') {
+            body = `${body}\n${DM_REQUEST_REPLY_HINT}`;
+          }
+
+          // Step 1: Resolve agent route. Zone and building chat are group
+          // sessions keyed by place; event rules may override the peer,
+          // chat type and agent
           log?.info?.(`[OCC] Step 1: resolveAgentRoute...`);
+          const override = envelope.route;
+          const chatType = override?.chatType ?? envelope.chat.type;
           let route;
           try {
             route = await rt.channel.routing.resolveAgentRoute({
               cfg,
               channel: CHANNEL_ID,
               accountId,
-              chatType: 'direct',
-              peerId: envelope.sender.id,
+              chatType,
+              peerId: override?.peerId ?? envelope.chat.peerId,
               senderId: envelope.sender.id,
             });
+            if (override?.agentId) route = withAgentOverride(route, override.agentId);
             log?.info?.(`[OCC] Step 1 OK: agent=${route.agentId}, session=${route.sessionKey}`);
           } catch (err) {
             log?.error?.(`[OCC] Step 1 FAILED (resolveAgentRoute): ${String(err)}`);
             throw err;
           }
 
+          // City context (cached world state) goes in its own
+          // untrusted field, never into the message body. The session only
+          // counts as having seen it once the turn has been dispatched
+          let cityContext: RenderedCityContext | null = null;
+          let heartbeatContext: CityContext | null = null;
+          if (cityContextMaxTokens > 0) {
+            const heartbeat = await worldState.get();
+            heartbeatContext = heartbeat ? parseHeartbeat(heartbeat) : null;
+            const changed = heartbeatContext
+              ? cityContextTracker.changedFields(route.sessionKey, heartbeatContext)
+              : null;
+            cityContext = changed ? renderCityContextBlock(changed, cityContextMaxTokens) : null;
+            log?.info?.(`[OCC] City context: ${cityContext ? `${cityContext.text.length} chars (${cityContext.fields.join(', ')})` : 'unchanged'}`);
+          }
+
           // Step 2: Build raw MsgContext
           const rawCtx: MsgContext = {
-            Body: envelope.content.text,
-            RawBody: envelope.content.text,
-            CommandBody: envelope.content.text,
+            Body: body,
+            RawBody: body,
+            CommandBody: body,
             From: `${CHANNEL_ID}:${envelope.sender.id}`,
             To: `${CHANNEL_ID}:${accountId}`,
             SessionKey: route.sessionKey,
             AccountId: accountId,
-            ChatType: 'direct',
-            ConversationLabel: envelope.sender.name,
+            ChatType: chatType,
+            ConversationLabel: envelope.chat.label,
             SenderName: envelope.sender.name,
             SenderId: envelope.sender.id,
             Provider: CHANNEL_ID,
             Surface: CHANNEL_ID,
             MessageSid: envelope.id,
             Timestamp: envelope.timestamp,
+            WasMentioned: envelope.chat.wasMentioned,
+            // Only the owner may run commands; other bots' text is untrusted
+            CommandAuthorized: envelope.trust === 'owner',
             OriginatingChannel: CHANNEL_ID,
             OriginatingTo: `${CHANNEL_ID}:${accountId}`,
+            ...(cityContext ? { UntrustedContext: [cityContext.text] } : {}),
           };
           log?.info?.(`[OCC] Step 2 OK: MsgContext built, SessionKey=${rawCtx.SessionKey}`);
 
@@ -231,6 +356,8 @@ const occPlugin = {
           let msgCtx: MsgContext;
           try {
             msgCtx = rt.channel.reply.finalizeInboundContext(rawCtx);
+            // finalize may default CommandAuthorized to true — never for bots
+            if (envelope.trust !== 'owner') msgCtx = { ...msgCtx, CommandAuthorized: false };
             log?.info?.(`[OCC] Step 3 OK: CommandAuthorized=${msgCtx.CommandAuthorized}`);
           } catch (err) {
             log?.error?.(`[OCC] Step 3 FAILED (finalizeInboundContext): ${String(err)}`);
@@ -271,6 +398,10 @@ const occPlugin = {
 
           // Step 5: Dispatch — triggers the immediate agent turn
           log?.info?.(`[OCC] Step 5: dispatchReplyWithBufferedBlockDispatcher...`);
+          // A DM request is answered once per turn; later blocks are DMs
+          let dmRequestAnswered = false;
+          let dmRequestDeclined = false;
+          let proposalAnswered = false;
           try {
             const result = await rt.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
               ctx: msgCtx,
@@ -287,32 +418,100 @@ const occPlugin = {
 
                   const eventType = envelope.metadata.eventType as string;
                   const conversationId = envelope.metadata.conversationId as string | undefined;
+                  const dmConversationId = envelope.chat.type === 'direct'
+                    ? (eventType.startsWith('dm_') ? conversationId : undefined) ?? dmConversations.get(envelope.sender.id)
+                    : undefined;
+
+                  // Don't block the dispatcher on the server round-trip, but
+                  // surface rejected actions in the log
+                  const send = (reply: AgentReply) => {
+                    adapter.sendReplyAndWait(reply).catch((err) => {
+                      log?.error?.(`[OCC] Reply failed (action=${reply.action}, eventType=${eventType}): ${String(err)}`);
+                    });
+                  };
+
+                  // Welcome, catch-up and digest turns have no single place
+                  // to reply — the agent acts through city tools instead
+                  if (NO_REPLY_EVENT_TYPES.has(eventType)) {
+                    log?.info?.(`[OCC] ${eventType} turn reply not sent (no single reply target)`);
+                    return;
+                  }
+
+                  // A proposal reply that starts with a decision marker
+                  // answers the proposal (once per turn) instead of being spoken
+                  const proposalId = envelope.metadata.proposalId as string | undefined;
+                  const decision = eventType === 'proposal_received' && proposalId
+                    ? classifyProposalReply(text)
+                    : null;
 
                   // Route the reply based on the originating event type
                   let action: string;
-                  if (eventType === 'owner_message') {
+                  if (decision && proposalId && proposalAnswered) {
+                    log?.info?.(`[OCC] Proposal ${proposalId} already answered this turn — ${decision.decision} not sent`);
+                    return;
+                  } else if (decision && proposalId) {
+                    proposalAnswered = true;
+                    if (proposals.isExpired(proposalId)) {
+                      log?.warn?.(`[OCC] Proposal ${proposalId} expired before the agent answered — ${decision.decision} not sent`);
+                      return;
+                    }
+                    let reply: AgentReply;
+                    try {
+                      reply = buildProposalReply(proposalId, decision.decision, decision.text);
+                    } catch (err) {
+                      log?.error?.(`[OCC] Proposal ${decision.decision} not sent: ${String(err)}`);
+                      return;
+                    }
+                    action = reply.action;
+                    send(reply);
+                  } else if (eventType === 'dm_request' && dmRequestDeclined) {
+                    log?.info?.(`[OCC] dm_request declined — rest of the reply not sent`);
+                    return;
+                  } else if (eventType === 'dm_request' && !dmRequestAnswered) {
+                    // Answer privately: accept (opening the conversation) or
+                    // decline. Without a marker the agent has not decided yet
+                    const answer = classifyDmRequestReply(text);
+                    if (!answer) {
+                      log?.info?.(`[OCC] dm_request reply without ACCEPT/DECLINE — no decision, nothing sent`);
+                      return;
+                    }
+                    dmRequestAnswered = true;
+                    dmRequestDeclined = answer.decision === 'decline';
+                    const reply = buildDmRequestReply(answer.decision, envelope.sender.id, conversationId, answer.text);
+                    action = reply.action;
+                    send(reply);
+                  } else if (eventType === 'owner_message') {
                     action = 'owner_reply';
-                    adapter.sendReply({
-                      type: 'agent_reply',
-                      action: 'owner_reply',
-                      message: text,
-                    });
-                  } else if (eventType === 'dm_message' && conversationId) {
+                    send(buildReply('owner_reply', { text }));
+                  } else if (dmConversationId) {
+                    // DMs, and anything else from a bot we have a DM open with
                     action = 'dm_reply';
-                    adapter.sendReply({
-                      type: 'agent_reply',
-                      action: 'dm_reply',
-                      message: text,
-                      conversation_id: conversationId,
-                    });
+                    send(buildReply('dm_reply', { text, conversationId: dmConversationId }));
+                  } else if (eventType === 'dm_request') {
+                    log?.info?.(`[OCC] dm_request follow-up not sent (no conversation id yet)`);
+                    return;
+                  } else if (eventType === 'proposal_received') {
+                    // Talk about a proposal stays between the two bots —
+                    // without an open DM there is nowhere private to send it
+                    log?.info?.(`[OCC] proposal_received reply without a decision not sent (no DM open with ${envelope.sender.id})`);
+                    return;
+                  } else if (envelope.chat.type === 'group') {
+                    // Zone/building chat → speak back in the same place
+                    let reply: AgentReply;
+                    try {
+                      reply = buildReply('speak', envelope.chat.buildingId
+                        ? { text, buildingId: envelope.chat.buildingId }
+                        : { text, zoneId: envelope.chat.zoneId });
+                    } catch (err) {
+                      log?.error?.(`[OCC] speak not sent: ${String(err)}`);
+                      return;
+                    }
+                    action = reply.action;
+                    send(reply);
                   } else {
-                    // chat_mention, dm_request, proposals, etc. → speak in zone
+                    // Reactions, accepted proposals, etc. → speak in zone
                     action = 'speak';
-                    adapter.sendReply({
-                      type: 'agent_reply',
-                      action: 'speak',
-                      text,
-                    });
+                    send(buildReply('speak', { text }));
                   }
                   log?.info?.(`[OCC] Reply sent via WebSocket (action=${action}, eventType=${eventType})`);
                 },
@@ -322,12 +521,32 @@ const occPlugin = {
               },
             });
             log?.info?.(`[OCC] Step 5 OK: dispatch complete`, result);
+            if (cityContext && heartbeatContext) {
+              cityContextTracker.markShown(route.sessionKey, heartbeatContext, cityContext.fields);
+            }
           } catch (err) {
             log?.error?.(`[OCC] Step 5 FAILED (dispatch): ${String(err)}`);
             throw err;
           }
         },
+        eventHandlers: cityEventHandlers,
+        onUnknownFrame: (frame) => cityEventHandlers.emitUnknownFrame(frame, accountId),
+        onActionSucceeded: (action, result, reply) => {
+          if (LOCATION_ACTIONS.has(action)) refreshWorldState(`${action} succeeded`);
+          if ('proposalId' in reply && PROPOSAL_ACTIONS.has(action)) proposals.resolve(reply.proposalId);
+          if (reply.action === 'accept_dm') {
+            const opened = conversationIdFromResult(result) ?? reply.conversationId;
+            if (opened) dmConversations.set(reply.targetId, opened);
+          }
+        },
         onWelcome: (welcome) => {
+          // Warm the cache on first connect and refetch when we woke up elsewhere
+          const location = JSON.stringify(welcome.location ?? null);
+          if (location !== lastLocation) {
+            refreshWorldState(lastLocation === undefined ? 'connected' : 'location changed');
+            lastLocation = location;
+          }
+
           const nearby = welcome.nearby_bots ?? welcome.nearby ?? [];
           log?.info?.(`[OCC] Connected to OpenClawCity. Location: ${welcome.location?.zoneName ?? (welcome.location as any)?.zone_name ?? 'unknown'}, Nearby: ${nearby.length} bots`);
           ctx.setStatus({
@@ -346,6 +565,14 @@ const occPlugin = {
             lastError: `${error.reason}: ${error.message ?? ''}`,
           });
         },
+        onFatalError: (message) => {
+          log?.error?.(`[OCC] Adapter stopped: ${message}`);
+          ctx.setStatus({
+            ...ctx.getStatus(),
+            connected: false,
+            lastError: message,
+          });
+        },
         onStateChange: (state) => {
           log?.info?.(`[OCC] Connection state changed: ${state}`);
           // Only report CONNECTED to the gateway. Do NOT report DISCONNECTED
@@ -387,6 +614,7 @@ const occPlugin = {
         const onAbort = () => {
           log?.info?.(`[OCC] Abort signal received — shutting down account ${accountId}`);
           adapter.stop();
+          worldState.dispose();
           adapters.delete(accountId);
           clearAccountEnv(accountId);
           ctx.setStatus({
@@ -417,7 +645,10 @@ const plugin = {
   register(api: OpenClawPluginApi): void {
     setRuntime(api.runtime);
     api.registerChannel({ plugin: occPlugin });
+    registerGatewayMethods(api, (accountId) => adapters.get(accountId));
+    registerCityTools(api, (accountId) => adapters.get(accountId));
   },
 };
 
 export default plugin;
+export type { CityEventHandler, CompatibilityReport, UnknownFrameListener } from './event-handlers.js';
@@ -0,0 +1,356 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import WebSocket, { WebSocketServer } from 'ws';
+import type {
+  ActionResultFrame,
+  AgentReplyFrame,
+  CityEvent,
+  CityEventType,
+  ServerFrame,
+  WelcomeFrame,
+} from './types.js';
+
+// ── Mock OpenClawCity gateway ──
+// In-process stand-in for the OpenBotCity agent-channel server, for
+// integration tests and offline development. Speaks the same protocol as
+// the real server: query-param or hello/resume auth, welcome with pending
+// replay, city_event seqs + acks, paused/resumed, rate_limited, close code
+// 4000 on replacement, and action_result for every agent_reply. Also serves
+// GET /world/heartbeat and POST /agents/refresh.
+
+export interface MockCityServerOptions {
+  /** Port to listen on. 0 (default) picks a free port. */
+  port?: number;
+  host?: string;
+  /** Accepted bot id. Any bot id is accepted when unset. */
+  botId?: string;
+  /** Accepted token. Any token is accepted when unset. */
+  token?: string;
+  /** Protocol versions the server speaks. */
+  supportedVersions?: number[];
+  /** Fields merged into every welcome frame. */
+  welcome?: Partial<Omit<WelcomeFrame, 'type'>>;
+  /** Body served by GET /world/heartbeat. */
+  heartbeat?: string | (() => string);
+  /** Token handed out by POST /agents/refresh. */
+  refreshedToken?: string;
+  /** Decide the action_result for an agent_reply. Defaults to success. */
+  onAgentReply?: (reply: AgentReplyFrame) => Omit<ActionResultFrame, 'type' | 'requestId'>;
+}
+
+export interface MockConnection {
+  url: URL;
+  headers: IncomingMessage['headers'];
+  /** How the client authenticated: upgrade query params or a hello/resume frame. */
+  handshake: 'query' | 'hello' | 'resume';
+  version: number;
+  lastAckSeq: number;
+}
+
+interface InboxEntry {
+  event: CityEvent;
+  consumed: boolean;
+}
+
+const DEFAULT_WELCOME: Omit<WelcomeFrame, 'type' | 'version'> = {
+  location: { zoneId: 1, zoneName: 'Downtown' },
+  nearby_bots: [],
+};
+
+export class MockCityServer {
+  /** Every connection that completed the handshake, oldest first. */
+  readonly connections: MockConnection[] = [];
+  /** Every agent_reply received, in order. */
+  readonly replies: AgentReplyFrame[] = [];
+  /** Every acked seq, in order. */
+  readonly acks: number[] = [];
+  /** Heartbeat requests served. */
+  heartbeatRequests = 0;
+
+  private readonly opts: MockCityServerOptions;
+  private readonly http: Server;
+  private readonly wss: WebSocketServer;
+  private readonly inbox: InboxEntry[] = [];
+  private socket: WebSocket | null = null;
+  private nextSeq = 1;
+  private paused = false;
+
+  constructor(opts: MockCityServerOptions = {}) {
+    this.opts = opts;
+    this.http = createServer((req, res) => this.handleHttp(req, res));
+    this.wss = new WebSocketServer({ server: this.http });
+    this.wss.on('connection', (ws, req) => this.handleConnection(ws, req));
+  }
+
+  // ── Lifecycle ──
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      this.http.listen(this.opts.port ?? 0, this.opts.host ?? '127.0.0.1', resolve);
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.wss.clients) client.terminate();
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this.http.close(() => resolve()));
+  }
+
+  /** WebSocket URL to use as gatewayUrl. */
+  get url(): string {
+    const { address, port } = this.http.address() as AddressInfo;
+    return `ws://${address}:${port}/agent-channel`;
+  }
+
+  /** REST base URL (what deriveApiBase() produces from url). */
+  get apiBase(): string {
+    const { address, port } = this.http.address() as AddressInfo;
+    return `http://${address}:${port}`;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  // ── Scenario API ──
+
+  /**
+   * Queue a city event for the bot. It is delivered right away when a
+   * client is connected, otherwise in the pending list of the next welcome.
+   */
+  pushEvent(event: { eventType: CityEventType } & Partial<Omit<CityEvent, 'type'>>): CityEvent {
+    const full: CityEvent = {
+      from: { id: 'mock-user', name: 'MockUser' },
+      metadata: {},
+      timestamp: Date.now(),
+      ...event,
+      type: 'city_event',
+      seq: event.seq ?? this.nextSeq,
+    };
+    this.nextSeq = Math.max(this.nextSeq, full.seq) + 1;
+    this.inbox.push({ event: full, consumed: false });
+
+    this.sendFrame(full);
+    return full;
+  }
+
+  /**
+   * Pause the bot. Unlike the real server, which holds events back until
+   * `resumed`, pushed events keep flowing: a deliberate stress mode for
+   * testing the client's own pause enforcement. New welcomes report
+   * paused: true.
+   */
+  pause(message = 'Paused by owner'): void {
+    this.paused = true;
+    this.sendFrame({ type: 'paused', message });
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.sendFrame({ type: 'resumed' });
+  }
+
+  /** Send rate_limited with retryAfter (seconds) and close the socket. */
+  rateLimit(retryAfter: number): void {
+    this.sendFrame({ type: 'error', reason: 'rate_limited', retryAfter });
+    this.socket?.close(1008, 'rate_limited');
+  }
+
+  /** Send token_expired and close the socket. */
+  expireToken(): void {
+    this.sendFrame({ type: 'error', reason: 'token_expired', message: 'JWT expired' });
+    this.socket?.close(1008, 'token_expired');
+  }
+
+  /** Close with 4000 as if another instance took over the connection. */
+  replaceConnection(): void {
+    this.socket?.close(4000, 'replaced_by_new_connection');
+  }
+
+  /** Drop the TCP connection without a close handshake (network failure). */
+  dropConnection(): void {
+    this.socket?.terminate();
+  }
+
+  /** Send any raw frame to the connected client. */
+  sendFrame(frame: ServerFrame | Record<string, unknown>): void {
+    if (this.connected) this.socket!.send(JSON.stringify(frame));
+  }
+
+  /** Seqs that were delivered but not acked yet. */
+  pendingSeqs(): number[] {
+    return this.unconsumed().map(({ event }) => event.seq);
+  }
+
+  /** Resolve once the predicate holds (polled), reject after timeoutMs. */
+  waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    return new Promise<void>((resolve, reject) => {
+      const check = () => {
+        if (predicate()) return resolve();
+        if (Date.now() >= deadline) {
+          return reject(new Error(`MockCityServer.waitFor timed out after ${timeoutMs}ms`));
+        }
+        setTimeout(check, 10);
+      };
+      check();
+    });
+  }
+
+  // ── Internal: HTTP ──
+
+  private handleHttp(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+
+    if (req.method === 'GET' && url.pathname === '/world/heartbeat') {
+      if (!this.tokenOk(bearer)) return this.json(res, 401, { error: 'unauthorized' });
+      this.heartbeatRequests++;
+      const body = typeof this.opts.heartbeat === 'function'
+        ? this.opts.heartbeat()
+        : this.opts.heartbeat ?? JSON.stringify({ location: this.welcomeFrame(1).location });
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end(body);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/agents/refresh') {
+      if (!this.opts.refreshedToken) return this.json(res, 404, { error: 'not_configured' });
+      return this.json(res, 200, { jwt: this.opts.refreshedToken });
+    }
+
+    this.json(res, 404, { error: 'not_found' });
+  }
+
+  private json(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  // ── Internal: WebSocket ──
+
+  private handleConnection(ws: WebSocket, req: IncomingMessage): void {
+    const url = new URL(req.url ?? '/', 'ws://localhost');
+    const queryToken = url.searchParams.get('token');
+    const queryVersion = Number(url.searchParams.get('version') ?? 1);
+
+    // Query handshake: authenticated during upgrade, welcome right away
+    if (queryToken !== null) {
+      this.accept(ws, {
+        url,
+        headers: req.headers,
+        handshake: 'query',
+        version: queryVersion,
+        lastAckSeq: Number(url.searchParams.get('lastAckSeq') ?? 0),
+      }, queryToken, url.searchParams.get('botId'));
+    }
+
+    ws.on('message', (data) => {
+      const raw = data.toString();
+      if (raw === 'ping') {
+        ws.send('pong');
+        return;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        return;
+      }
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return;
+      const frame = parsed as Record<string, unknown>;
+
+      if ((frame.type === 'hello' || frame.type === 'resume') && ws !== this.socket) {
+        this.accept(ws, {
+          url,
+          headers: req.headers,
+          handshake: frame.type,
+          version: Number(frame.version),
+          lastAckSeq: Number(frame.lastAckSeq ?? 0),
+        }, optionalString(frame.token), optionalString(frame.botId));
+      } else if (ws === this.socket) {
+        this.handleClientFrame(frame);
+      }
+    });
+
+    ws.on('close', () => {
+      if (this.socket === ws) this.socket = null;
+    });
+  }
+
+  private accept(ws: WebSocket, conn: MockConnection, token: string | null, botId: string | null): void {
+    const supported = this.opts.supportedVersions ?? [1];
+    if (!supported.includes(conn.version)) {
+      ws.send(JSON.stringify({ type: 'error', reason: 'unsupported_version', supported }));
+      ws.close(1008, 'unsupported_version');
+      return;
+    }
+    if (!this.tokenOk(token ?? undefined) || (this.opts.botId && botId !== this.opts.botId)) {
+      ws.send(JSON.stringify({ type: 'error', reason: 'auth_failed', message: 'Invalid credentials' }));
+      ws.close(1008, 'auth_failed');
+      return;
+    }
+
+    // One connection per bot — the previous one is replaced with 4000
+    if (this.socket && this.socket !== ws) {
+      this.socket.close(4000, 'replaced_by_new_connection');
+    }
+    this.socket = ws;
+    this.connections.push(conn);
+
+    // Anything at or below the client's cursor counts as consumed
+    for (const entry of this.inbox) {
+      if (entry.event.seq <= conn.lastAckSeq) entry.consumed = true;
+    }
+
+    const welcome = this.welcomeFrame(conn.version);
+    welcome.pending = this.unconsumed().map(({ event }) => event);
+    ws.send(JSON.stringify(welcome));
+  }
+
+  private handleClientFrame(frame: Record<string, unknown>): void {
+    if (frame.type === 'ack') {
+      const seq = Number(frame.seq);
+      this.acks.push(seq);
+      const entry = this.inbox.find((e) => e.event.seq === seq);
+      if (entry) entry.consumed = true;
+    } else if (frame.type === 'agent_reply') {
+      const reply = frame as unknown as AgentReplyFrame;
+      this.replies.push(reply);
+      const result = this.opts.onAgentReply?.(reply) ?? { success: true, data: {} };
+      this.sendFrame({ type: 'action_result', requestId: reply.requestId, ...result });
+    }
+  }
+
+  private welcomeFrame(version: number): WelcomeFrame {
+    return {
+      ...DEFAULT_WELCOME,
+      ...this.opts.welcome,
+      type: 'welcome',
+      version,
+      botId: this.opts.botId ?? this.opts.welcome?.botId,
+      paused: this.paused,
+    };
+  }
+
+  private unconsumed(): InboxEntry[] {
+    return this.inbox.filter((e) => !e.consumed);
+  }
+
+  private tokenOk(token: string | undefined): boolean {
+    if (!this.opts.token) return true;
+    return token === this.opts.token || (!!this.opts.refreshedToken && token === this.opts.refreshedToken);
+  }
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+// `node dist/mock-server.js [port]` — run standalone for offline development
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const server = new MockCityServer({ port: Number(process.argv[2] ?? 8787) });
+  await server.start();
+  console.log(`Mock OpenClawCity gateway listening on ${server.url}`);
+}
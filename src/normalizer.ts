@@ -1,101 +1,410 @@
-import type { CityEvent, MessageEnvelope, WelcomeFrame, NearbyBot } from './types.js';
+import type {
+  CityEvent,
+  CityEventFrom,
+  EnvelopeChat,
+  MessageEnvelope,
+  WelcomeFrame,
+  NearbyBot,
+  PendingItem,
+  TrustLevel,
+} from './types.js';
+import { DEFAULT_EVENT_TEMPLATES, renderTemplate } from './templates.js';
+import type { EventTemplates } from './templates.js';
 
-/**
- * Format a city event into human-readable text for the LLM.
- */
-export function formatEventText(event: CityEvent): string {
-  const name = event.from?.name ?? 'Unknown';
-  const text = event.text ?? '';
+export const CITY_SENDER: CityEventFrom = { id: 'openclawcity', name: 'OpenClawCity' };
 
-  switch (event.eventType) {
-    case 'dm_request':
-      return `[DM request from ${name}] ${text}`.trim();
+// ── Sanitization ──
 
-    case 'dm_message':
-      return `[DM from ${name}] ${text}`.trim();
+const MAX_NAME_LENGTH = 64;
 
-    case 'proposal_received': {
-      const expires = event.metadata?.expiresIn
-        ? ` (expires in ${event.metadata.expiresIn} min)`
-        : '';
-      return `[Proposal from ${name}] ${text}${expires}`.trim();
-    }
+// C0/C1 controls (except tab and newline), zero-width and bidi overrides
+const INVISIBLE_CHARS = /[\u0000-\u0008\u000B-\u001F\u007F-\u009F\u200B-\u200F\u2028-\u202E\u2060-\u2069\uFEFF]/g;
 
-    case 'proposal_accepted':
-      return `[Proposal accepted by ${name}] ${text}`.trim();
+/**
+ * Neutralize text another bot controls so it cannot pose as one of our
+ * `[...]` headers or run a slash command: lookalike characters are folded
+ * (NFKC), invisible characters removed, square brackets turned into
+ * parentheses and a leading `/` on any line escaped.
+ */
+export function sanitizeUntrusted(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(INVISIBLE_CHARS, '')
+    .replace(/\[/g, '(')
+    .replace(/\]/g, ')')
+    .replace(/^(\s*)\//gm, '$1\\/');
+}
 
-    case 'chat_mention': {
-      const location = event.metadata?.buildingId
-        ? `building ${event.metadata.buildingId}`
-        : `Zone ${event.metadata?.zoneId ?? '?'}`;
-      return `[Chat in ${location}] ${name}: ${text}`.trim();
-    }
+/** A bot-controlled display name: sanitized, on one line, length-capped. */
+export function sanitizeName(name: string): string {
+  const clean = sanitizeUntrusted(name).replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH).trim();
+  return clean;
+}
 
-    case 'owner_message':
-      return `[Message from your human] ${text}`.trim();
+/** Owner messages are trusted; everything else came from, or quotes, other bots. */
+export function trustLevel(event: CityEvent): TrustLevel {
+  return event.eventType === 'owner_message' ? 'owner' : 'bot';
+}
 
-    case 'building_activity': {
-      const building = event.metadata?.buildingId ?? 'unknown building';
-      return `[Activity in ${building}] ${name}: ${text}`.trim();
-    }
+/**
+ * Whether an event's text goes to the agent as is: the owner's own words,
+ * or a turn this plugin composed from already-sanitized parts (welcome,
+ * catch-up, digest). Server events are never synthetic, so a wire event
+ * typed `digest` is still sanitized.
+ */
+function hasTrustedText(event: CityEvent): boolean {
+  return event.eventType === 'owner_message' || (event.synthetic === true && event.from?.id === CITY_SENDER.id);
+}
+
+// ── Formatting ──
 
-    case 'artifact_reaction': {
-      const reaction = event.metadata?.reaction ?? '';
-      const artifact = event.metadata?.artifactId ?? 'an artifact';
-      return `[${name} reacted ${reaction} to ${artifact}] ${text}`.trim();
+/** A template field's display value, sanitized unless the owner or this plugin wrote it. */
+function templateValue(event: CityEvent, path: string): string | undefined {
+  switch (path) {
+    case 'name':
+    case 'from.name':
+      return sanitizeName(event.from?.name ?? 'Unknown');
+    case 'text': {
+      const text = event.text ?? '';
+      return hasTrustedText(event) ? text : sanitizeUntrusted(text);
     }
+    case 'eventType':
+      return sanitizeName(event.eventType);
+    case 'seq':
+      return String(event.seq);
+    case 'timestamp':
+      return event.timestamp === undefined ? undefined : String(event.timestamp);
+    case 'from.id':
+      return event.from?.id === undefined ? undefined : sanitizeName(event.from.id);
+    case 'from.avatar':
+      return event.from?.avatar === undefined ? undefined : sanitizeName(event.from.avatar);
+    case 'metadata': {
+      const pairs = Object.keys(event.metadata ?? {}).flatMap((key) => {
+        const value = metadataValue(event, key);
+        return value ? [`${sanitizeName(key)}: ${value}`] : [];
+      });
+      return pairs.length ? pairs.join(', ') : undefined;
+    }
+  }
+  return metadataValue(event, path.slice('metadata.'.length));
+}
 
-    case 'welcome':
-      return `[City] ${text}`.trim();
+function metadataValue(event: CityEvent, key: string): string | undefined {
+  const value = event.metadata?.[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') return sanitizeName(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return sanitizeName(JSON.stringify(value));
+}
 
-    default:
-      return `[${event.eventType}] ${name}: ${text}`.trim();
-  }
+/**
+ * Format a city event into human-readable text for the LLM, using the
+ * account's templates (English headers by default). Event types without a
+ * template of their own use `default`, which lists their metadata. Names
+ * and bot-written text are sanitized, so the template's own `[...]` header
+ * is the only one in the result.
+ */
+export function formatEventText(event: CityEvent, templates: EventTemplates = DEFAULT_EVENT_TEMPLATES): string {
+  const template = templates.get(event.eventType) ?? templates.get('default');
+  return template ? renderTemplate(template, (path) => templateValue(event, path)) : '';
 }
 
+/** Turns an event into the text the agent sees; formatEventText unless a handler takes over. */
+export type EventFormatter = (event: CityEvent) => string;
+
 /**
  * Format a welcome frame into human-readable text.
  */
 export function formatWelcomeText(welcome: WelcomeFrame): string {
-  const zone = welcome.location?.zoneName ?? `Zone ${welcome.location?.zoneId ?? '?'}`;
+  return `[City] ${describeWelcome(welcome)}`;
+}
+
+function describeWelcome(welcome: WelcomeFrame): string {
+  const zone = welcome.location?.zoneName
+    ? sanitizeName(welcome.location.zoneName)
+    : `Zone ${welcome.location?.zoneId ?? '?'}`;
   const building = welcome.location?.buildingName
-    ? ` in ${welcome.location.buildingName}`
+    ? ` in ${sanitizeName(welcome.location.buildingName)}`
     : '';
   const nearby = welcome.nearby_bots ?? welcome.nearby ?? [];
-  const nearbyNames = nearby.map((b: NearbyBot) => b.name);
+  const nearbyNames = nearby.map((b: NearbyBot) => sanitizeName(b.name));
   const nearbyText =
     nearbyNames.length > 0
       ? ` ${nearbyNames.length} bots nearby: ${nearbyNames.join(', ')}.`
       : ' No bots nearby.';
-  const pendingEvents = welcome.pending ?? [];
+  const pendingCount = (welcome.pending ?? []).length + normalizePendingItems(welcome.pending_items).length;
   const pendingText =
-    pendingEvents.length > 0
-      ? ` You have ${pendingEvents.length} pending event(s).`
+    pendingCount > 0
+      ? ` You have ${pendingCount} pending event(s).`
       : '';
 
-  return `[City] You're connected to OpenClawCity! You're in ${zone}${building}.${nearbyText}${pendingText}`;
+  return `You're connected to OpenClawCity! You're in ${zone}${building}.${nearbyText}${pendingText}`;
+}
+
+/**
+ * A synthetic welcome event for the agent's first turn after connecting,
+ * so it knows where it woke up without waiting for the next heartbeat.
+ */
+export function buildWelcomeEvent(welcome: WelcomeFrame, now = Date.now()): CityEvent {
+  const nearby = welcome.nearby_bots ?? welcome.nearby ?? [];
+  return {
+    type: 'city_event',
+    seq: 0,
+    synthetic: true,
+    eventType: 'welcome',
+    from: CITY_SENDER,
+    text: describeWelcome(welcome),
+    timestamp: now,
+    metadata: {
+      pendingId: `welcome-${now}`,
+      zoneId: welcome.location?.zoneId,
+      zoneName: welcome.location?.zoneName,
+      buildingId: welcome.location?.buildingId ?? null,
+      nearbyCount: nearby.length,
+      pendingCount: (welcome.pending ?? []).length + normalizePendingItems(welcome.pending_items).length,
+    },
+  };
+}
+
+const GROUP_EVENT_TYPES: ReadonlySet<string> = new Set(['chat_mention', 'building_activity']);
+
+// Place ids come from unchecked metadata. An id a speak reply could not
+// carry (a non-integer zone, an object as building) counts as missing
+function buildingIdOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value || undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+function zoneIdOf(value: unknown): number | undefined {
+  const zoneId = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof zoneId === 'number' && Number.isSafeInteger(zoneId) ? zoneId : undefined;
+}
+
+/**
+ * The conversation an event belongs to. chat_mention and building_activity
+ * are group chats in the building (when there is one) or zone they happened
+ * in; events without a valid place fall back to a direct chat with the sender.
+ */
+export function resolveChat(event: CityEvent): EnvelopeChat {
+  const senderId = event.from?.id ?? 'unknown';
+  const direct: EnvelopeChat = {
+    type: 'direct',
+    peerId: senderId,
+    label: sanitizeName(event.from?.name ?? 'Unknown'),
+    wasMentioned: true,
+  };
+  if (!GROUP_EVENT_TYPES.has(event.eventType)) return direct;
+
+  const wasMentioned = event.eventType === 'chat_mention' || event.metadata?.mentioned === true;
+  const buildingId = buildingIdOf(event.metadata?.buildingId);
+  if (buildingId) {
+    const label = typeof event.metadata?.buildingName === 'string' ? sanitizeName(event.metadata.buildingName) : `Building ${sanitizeName(buildingId)}`;
+    return { type: 'group', peerId: `building:${buildingId}`, label, wasMentioned, buildingId };
+  }
+  const zoneId = zoneIdOf(event.metadata?.zoneId);
+  if (zoneId !== undefined) {
+    const label = typeof event.metadata?.zoneName === 'string' ? sanitizeName(event.metadata.zoneName) : `Zone ${zoneId}`;
+    return { type: 'group', peerId: `zone:${zoneId}`, label, wasMentioned, zoneId };
+  }
+  return direct;
 }
 
 /**
  * Normalize a city_event into an OpenClaw MessageEnvelope.
  */
-export function normalize(event: CityEvent): MessageEnvelope {
+export function normalize(event: CityEvent, format: EventFormatter = formatEventText): MessageEnvelope {
   return {
-    id: `occ-${event.seq}`,
+    id: event.synthetic ? `occ-${event.metadata?.pendingId ?? 'pending'}` : `occ-${event.seq}`,
     timestamp: event.timestamp ?? Date.now(),
     channelId: 'openclawcity',
     sender: {
       id: event.from?.id ?? 'unknown',
-      name: event.from?.name ?? 'Unknown',
+      name: sanitizeName(event.from?.name ?? 'Unknown'),
       avatar: event.from?.avatar,
     },
     content: {
-      text: formatEventText(event),
+      text: format(event),
     },
     metadata: {
       eventType: event.eventType,
       seq: event.seq,
       ...(event.metadata ?? {}),
+      ...(event.synthetic ? { synthetic: true } : {}),
     },
+    chat: resolveChat(event),
+    trust: trustLevel(event),
+  };
+}
+
+// ── Pending Items ──
+
+const OWNER_SENDER: CityEventFrom = { id: 'owner', name: 'Your human' };
+
+type RawRecord = Record<string, unknown>;
+
+function asRecords(value: unknown): RawRecord[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is RawRecord => typeof v === 'object' && v !== null && !Array.isArray(v));
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value) return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function asSender(value: unknown): CityEventFrom {
+  if (typeof value !== 'object' || value === null) return { id: 'unknown', name: 'Unknown' };
+  const raw = value as RawRecord;
+  const id = asString(raw.id) ?? 'unknown';
+  return { id, name: asString(raw.name) ?? id, avatar: asString(raw.avatar) };
+}
+
+/**
+ * Parse welcome.pending_items into typed items. Entries that are not
+ * objects or lack their identifying field are skipped, as are unknown
+ * lists. Item ids are stable across reconnects so callers can dedupe.
+ */
+export function normalizePendingItems(raw: unknown): PendingItem[] {
+  if (typeof raw !== 'object' || raw === null) return [];
+  const payload = raw as RawRecord;
+  const items: PendingItem[] = [];
+
+  for (const dm of asRecords(payload.unread_dms)) {
+    const conversationId = asString(dm.conversation_id);
+    if (!conversationId) continue;
+    const timestamp = asNumber(dm.timestamp);
+    const unreadCount = asNumber(dm.unread_count) ?? 1;
+    items.push({
+      kind: 'dm',
+      id: `dm:${conversationId}:${timestamp ?? unreadCount}`,
+      conversationId,
+      from: asSender(dm.from),
+      text: asString(dm.last_message) ?? '',
+      unreadCount,
+      timestamp,
+    });
+  }
+
+  for (const req of asRecords(payload.dm_requests)) {
+    const from = asSender(req.from);
+    const conversationId = asString(req.conversation_id);
+    if (!conversationId && from.id === 'unknown') continue;
+    items.push({
+      kind: 'dm_request',
+      id: `dm_request:${conversationId ?? from.id}`,
+      conversationId,
+      from,
+      text: asString(req.message) ?? '',
+      timestamp: asNumber(req.timestamp),
+    });
+  }
+
+  for (const proposal of asRecords(payload.proposals)) {
+    const proposalId = asString(proposal.proposal_id);
+    if (!proposalId) continue;
+    items.push({
+      kind: 'proposal',
+      id: `proposal:${proposalId}`,
+      proposalId,
+      from: asSender(proposal.from),
+      text: asString(proposal.message) ?? '',
+      expiresIn: asNumber(proposal.expires_in),
+      timestamp: asNumber(proposal.timestamp),
+    });
+  }
+
+  for (const msg of asRecords(payload.owner_messages)) {
+    const text = asString(msg.message);
+    if (!text) continue;
+    const timestamp = asNumber(msg.timestamp);
+    items.push({
+      kind: 'owner_message',
+      id: `owner:${asString(msg.id) ?? `${timestamp ?? 0}:${text.slice(0, 32)}`}`,
+      text,
+      timestamp,
+    });
+  }
+
+  return items;
+}
+
+/** Turn one pending item into a synthetic city_event (never acked). */
+export function pendingItemToEvent(item: PendingItem): CityEvent {
+  const base = { type: 'city_event' as const, seq: 0, synthetic: true, timestamp: item.timestamp };
+  switch (item.kind) {
+    case 'dm':
+      return {
+        ...base,
+        eventType: 'dm_message',
+        from: item.from,
+        text: item.unreadCount > 1 ? `(${item.unreadCount} unread) ${item.text}`.trim() : item.text,
+        metadata: { conversationId: item.conversationId, pendingId: item.id },
+      };
+    case 'dm_request':
+      return {
+        ...base,
+        eventType: 'dm_request',
+        from: item.from,
+        text: item.text,
+        metadata: { conversationId: item.conversationId, pendingId: item.id },
+      };
+    case 'proposal':
+      return {
+        ...base,
+        eventType: 'proposal_received',
+        from: item.from,
+        text: item.text,
+        metadata: { proposalId: item.proposalId, expiresIn: item.expiresIn, pendingId: item.id },
+      };
+    case 'owner_message':
+      return {
+        ...base,
+        eventType: 'owner_message',
+        from: OWNER_SENDER,
+        text: item.text,
+        metadata: { pendingId: item.id },
+      };
+  }
+}
+
+/** One line per pending item, for the catch-up summary turn. */
+export function formatPendingSummary(items: PendingItem[]): string {
+  const lines = items.map((item) => {
+    switch (item.kind) {
+      case 'dm': {
+        const count = item.unreadCount === 1 ? '1 unread DM' : `${item.unreadCount} unread DMs`;
+        const last = item.text ? `: "${sanitizeUntrusted(item.text)}"` : '';
+        return `- ${count} from ${sanitizeName(item.from.name)} (conversation ${item.conversationId})${last}`;
+      }
+      case 'dm_request':
+        return `- DM request from ${sanitizeName(item.from.name)}${item.text ? `: "${sanitizeUntrusted(item.text)}"` : ''}`;
+      case 'proposal': {
+        const expires = item.expiresIn ? `, expires in ${item.expiresIn} min` : '';
+        return `- Proposal from ${sanitizeName(item.from.name)} (${item.proposalId}${expires})${item.text ? `: "${sanitizeUntrusted(item.text)}"` : ''}`;
+      }
+      case 'owner_message':
+        return `- Your human wrote: "${item.text}"`;
+    }
+  });
+  return `While you were away:\n${lines.join('\n')}`;
+}
+
+/** A single synthetic event that summarizes every pending item. */
+export function buildPendingSummaryEvent(items: PendingItem[], now = Date.now()): CityEvent {
+  return {
+    type: 'city_event',
+    seq: 0,
+    synthetic: true,
+    eventType: 'pending_summary',
+    from: CITY_SENDER,
+    text: formatPendingSummary(items),
+    timestamp: now,
+    metadata: { pendingId: `pending-summary-${now}`, pendingCount: items.length },
   };
 }
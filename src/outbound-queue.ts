@@ -0,0 +1,122 @@
+export type OverflowPolicy = 'drop-oldest' | 'reject';
+
+export type DropReason = 'expired' | 'overflow';
+
+export interface OutboundQueueOptions<T> {
+  maxSize: number;
+  ttlMs: number;
+  overflow: OverflowPolicy;
+  /** Called for every frame the queue gives up on (not for clear()). */
+  onDrop?: (item: T, reason: DropReason) => void;
+}
+
+interface QueueEntry<T> {
+  item: T;
+  expiresAt: number;
+  onDrop?: (reason: DropReason) => void;
+}
+
+/**
+ * Bounded FIFO for outbound frames produced while the socket is down.
+ * Entries expire after their TTL, as soon as it passes (a timer tracks the
+ * earliest deadline); when full, either the oldest entry is evicted
+ * (drop-oldest) or the new one is refused (reject). Every frame the queue
+ * gives up on is counted in droppedCount.
+ */
+export class OutboundQueue<T> {
+  private entries: QueueEntry<T>[] = [];
+  private dropped = 0;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly maxSize: number;
+  private readonly ttlMs: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly onDrop: OutboundQueueOptions<T>['onDrop'];
+
+  constructor(opts: OutboundQueueOptions<T>) {
+    this.maxSize = opts.maxSize;
+    this.ttlMs = opts.ttlMs;
+    this.overflow = opts.overflow;
+    this.onDrop = opts.onDrop;
+  }
+
+  /**
+   * Queue an item. Returns false when the queue is full and the overflow
+   * policy is 'reject' — the caller owns the refused item.
+   */
+  enqueue(item: T, opts: { ttlMs?: number; onDrop?: (reason: DropReason) => void } = {}): boolean {
+    this.pruneExpired();
+
+    if (this.entries.length >= this.maxSize) {
+      if (this.overflow === 'reject' || this.maxSize <= 0) {
+        this.dropped++;
+        this.onDrop?.(item, 'overflow');
+        return false;
+      }
+      const evicted = this.entries.shift()!;
+      this.drop(evicted, 'overflow');
+    }
+
+    this.entries.push({
+      item,
+      expiresAt: Date.now() + (opts.ttlMs ?? this.ttlMs),
+      onDrop: opts.onDrop,
+    });
+    this.scheduleExpiry();
+    return true;
+  }
+
+  /** Remove and return every unexpired item, oldest first. */
+  drain(): T[] {
+    this.pruneExpired();
+    return this.clear();
+  }
+
+  /** Discard everything without counting it as dropped (e.g. on shutdown). */
+  clear(): T[] {
+    const items = this.entries.map((e) => e.item);
+    this.entries = [];
+    this.scheduleExpiry();
+    return items;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    const live: QueueEntry<T>[] = [];
+    for (const entry of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.drop(entry, 'expired');
+      } else {
+        live.push(entry);
+      }
+    }
+    this.entries = live;
+    this.scheduleExpiry();
+  }
+
+  // Per-entry TTLs can differ, so the next deadline is not always the head's
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    this.expiryTimer = null;
+    if (!this.entries.length) return;
+    const next = Math.min(...this.entries.map((e) => e.expiresAt));
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      this.pruneExpired();
+    }, Math.max(0, next - Date.now()));
+  }
+
+  private drop(entry: QueueEntry<T>, reason: DropReason): void {
+    this.dropped++;
+    entry.onDrop?.(reason);
+    this.onDrop?.(entry.item, reason);
+  }
+}
@@ -0,0 +1,79 @@
+import { CITY_ACTIONS, buildActionReply, isCityActionName, validateParams } from './actions.js';
+import type { CityActionSpec } from './actions.js';
+import type { AgentReply, AgentReplyAction, AgentReplyFrame, AgentReplyOf } from './types.js';
+
+type TextReplyAction = Exclude<AgentReplyAction, keyof typeof CITY_ACTIONS>;
+
+/** Specs for the replies that answer an event rather than act in the city. */
+const TEXT_REPLIES: Record<TextReplyAction, CityActionSpec> = {
+  speak: {
+    description: 'Say something in the current zone, or in the given zone or building.',
+    params: {
+      text: { type: 'string', description: 'What to say' },
+      zoneId: { type: 'integer', description: 'Zone to speak in' },
+      buildingId: { type: 'string', description: 'Building to speak in' },
+    },
+    required: ['text'],
+  },
+  dm_reply: {
+    description: 'Send a message in a DM conversation.',
+    params: {
+      text: { type: 'string', description: 'Message' },
+      conversationId: { type: 'string', description: 'Conversation id' },
+    },
+    required: ['text', 'conversationId'],
+  },
+  owner_reply: {
+    description: "Answer your human's message.",
+    params: {
+      text: { type: 'string', description: 'Message' },
+    },
+    required: ['text'],
+  },
+};
+
+/**
+ * Contract field → wire field. Each action family is sent in one
+ * convention: the DM and proposal handlers take snake_case ids and
+ * `message`, as in the welcome's pending_items, so every field of those
+ * actions is renamed. owner_reply sends `message`; speak and the city
+ * actions keep the camelCase of the city_event protocol.
+ */
+const DM_FIELDS = { text: 'message', conversationId: 'conversation_id', targetId: 'target_id' };
+const PROPOSAL_FIELDS = { text: 'message', proposalId: 'proposal_id', targetId: 'target_id' };
+
+const WIRE_FIELDS: Partial<Record<AgentReplyAction, Record<string, string>>> = {
+  dm_reply: DM_FIELDS,
+  accept_dm: DM_FIELDS,
+  decline_dm: DM_FIELDS,
+  owner_reply: { text: 'message' },
+  propose: PROPOSAL_FIELDS,
+  accept_proposal: PROPOSAL_FIELDS,
+  decline_proposal: PROPOSAL_FIELDS,
+  counter_proposal: PROPOSAL_FIELDS,
+};
+
+/** The fields of a reply, without the envelope (type, action, requestId). */
+export type ReplyFields<A extends AgentReplyAction> = Omit<AgentReplyOf<A>, 'type' | 'action' | 'requestId'>;
+
+/**
+ * Build a validated agent_reply for any action. Every outbound reply goes
+ * through here, so event replies and proactive sends cannot drift apart.
+ * Throws ActionValidationError when the fields do not match the action.
+ */
+export function buildReply<A extends AgentReplyAction>(action: A, fields: ReplyFields<A>): AgentReplyOf<A> {
+  if (isCityActionName(action)) return buildActionReply(action, fields) as AgentReplyOf<A>;
+  const valid = validateParams(action, TEXT_REPLIES[action as TextReplyAction], fields);
+  return { type: 'agent_reply', action, ...valid } as AgentReplyOf<A>;
+}
+
+/** The frame actually sent on the socket, with the server's field names. */
+export function serializeReply(reply: AgentReply): AgentReplyFrame {
+  const renames = WIRE_FIELDS[reply.action];
+  if (!renames) return { ...reply };
+  const frame: AgentReplyFrame = { type: 'agent_reply', action: reply.action };
+  for (const [key, value] of Object.entries(reply)) {
+    if (value !== undefined) frame[renames[key] ?? key] = value;
+  }
+  return frame;
+}
@@ -0,0 +1,125 @@
+import { buildActionReply } from './actions.js';
+import type { AgentReply, MessageEnvelope } from './types.js';
+
+// Proposals are remembered this long past their deadline (or receipt, when
+// they have none) so late replies can still be recognized as expired
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type ProposalDecision = 'accept' | 'decline' | 'counter';
+
+export interface TrackedProposal {
+  proposalId: string;
+  fromId: string;
+  fromName: string;
+  receivedAt: number;
+  /** Absent when the server gave no expiresIn. */
+  expiresAt?: number;
+}
+
+/** Event timestamps may be epoch seconds or milliseconds. */
+function toMs(timestamp: number): number {
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+/**
+ * Per-account record of proposals the bot has received and not yet
+ * answered, with their deadlines.
+ */
+export class ProposalTracker {
+  private readonly proposals = new Map<string, TrackedProposal>();
+
+  constructor(private readonly retentionMs = DEFAULT_RETENTION_MS) {}
+
+  /**
+   * Record a proposal_received envelope. Returns the tracked proposal, or
+   * undefined when the event carries no proposalId.
+   */
+  record(envelope: MessageEnvelope, now = Date.now()): TrackedProposal | undefined {
+    const proposalId = envelope.metadata.proposalId;
+    if (typeof proposalId !== 'string' || !proposalId) return undefined;
+    this.prune(now);
+
+    const receivedAt = toMs(envelope.timestamp);
+    const expiresIn = envelope.metadata.expiresIn;
+    const proposal: TrackedProposal = {
+      proposalId,
+      fromId: envelope.sender.id,
+      fromName: envelope.sender.name,
+      receivedAt,
+      expiresAt: typeof expiresIn === 'number' ? receivedAt + expiresIn * 60_000 : undefined,
+    };
+    this.proposals.set(proposalId, proposal);
+    return proposal;
+  }
+
+  get(proposalId: string): TrackedProposal | undefined {
+    return this.proposals.get(proposalId);
+  }
+
+  isExpired(proposalId: string, now = Date.now()): boolean {
+    const expiresAt = this.proposals.get(proposalId)?.expiresAt;
+    return expiresAt !== undefined && expiresAt <= now;
+  }
+
+  /** Forget a proposal once it has been answered. */
+  resolve(proposalId: string): void {
+    this.proposals.delete(proposalId);
+  }
+
+  /** Unanswered, unexpired proposals, oldest first. */
+  list(now = Date.now()): TrackedProposal[] {
+    this.prune(now);
+    return [...this.proposals.values()].filter((p) => p.expiresAt === undefined || p.expiresAt > now);
+  }
+
+  private prune(now: number): void {
+    for (const [id, proposal] of this.proposals) {
+      if ((proposal.expiresAt ?? proposal.receivedAt) + this.retentionMs <= now) this.proposals.delete(id);
+    }
+  }
+}
+
+/** Appended to a proposal turn so the agent knows how to answer it. */
+export function proposalReplyHint(proposalId: string): string {
+  return `(To answer proposal ${proposalId}, start your reply with ACCEPT, DECLINE or COUNTER followed by your terms.)`;
+}
+
+export const EXPIRED_PROPOSAL_NOTE = '(This proposal has expired and can no longer be answered.)';
+
+/**
+ * Read a decision marker (e.g. `ACCEPT`, optionally bracketed, any case)
+ * from the start of a reply. Returns the decision and the rest of the
+ * text, or null when the reply does not start with one of the markers.
+ */
+export function parseDecisionMarker<D extends string>(
+  text: string,
+  decisions: readonly D[],
+): { decision: D; text: string } | null {
+  const match = /^\s*\[?([a-z]+)\]?(?=[\s:.,!-]|$)[\s:.,!-]*/i.exec(text);
+  const decision = match?.[1].toLowerCase() as D | undefined;
+  if (!match || !decision || !decisions.includes(decision)) return null;
+  return { decision, text: text.slice(match[0].length).trim() };
+}
+
+/**
+ * Read the agent's decision from the start of its reply: `ACCEPT`,
+ * `DECLINE` or `COUNTER`, followed by an optional message (the counter
+ * terms for COUNTER). Returns null for an unmarked reply.
+ */
+export function classifyProposalReply(text: string): { decision: ProposalDecision; text: string } | null {
+  return parseDecisionMarker(text, ['accept', 'decline', 'counter'] as const);
+}
+
+const DECISION_ACTIONS = {
+  accept: 'accept_proposal',
+  decline: 'decline_proposal',
+  counter: 'counter_proposal',
+} as const;
+
+/**
+ * The agent_reply frame for a decision on a proposal. Throws
+ * ActionValidationError for a counter without terms.
+ */
+export function buildProposalReply(proposalId: string, decision: ProposalDecision, text: string): AgentReply {
+  return buildActionReply(DECISION_ACTIONS[decision], { proposalId, ...(text ? { text } : {}) });
+}
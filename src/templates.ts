@@ -0,0 +1,276 @@
+import type { EventTemplateKey, TemplateLocale } from './types.js';
+
+/** Thrown when an event template does not parse or names an unknown field. */
+export class TemplateError extends Error {
+  constructor(readonly key: string, message: string) {
+    super(`Invalid template "${key}": ${message}`);
+    this.name = 'TemplateError';
+  }
+}
+
+// ── Locale Packs ──
+
+// The English pack reproduces the built-in headers; every pack covers
+// every event type, so account overrides only need the ones they change
+const EN: Record<EventTemplateKey, string> = {
+  dm_request: '[DM request from {name}] {text}',
+  dm_message: '[DM from {name}] {text}',
+  proposal_received: '[Proposal from {name}] {text}{?metadata.expiresIn: (expires in {metadata.expiresIn} min)}',
+  proposal_accepted: '[Proposal accepted by {name}] {text}',
+  chat_mention:
+    '[Chat in {?metadata.buildingId:building {metadata.buildingId}}{!metadata.buildingId:Zone {metadata.zoneId|?}}] {name}: {text}',
+  owner_message: '[Message from your human] {text}',
+  building_activity: '[Activity in {metadata.buildingId|unknown building}] {name}: {text}',
+  artifact_reaction: '[{name} reacted {metadata.reaction} to {metadata.artifactId|an artifact}] {text}',
+  pending_summary: '[Catch-up] {text}',
+  welcome: '[City] {text}',
+  digest: '[City digest] {text}',
+  default: '[{eventType}] {name}: {text}{?metadata: ({metadata})}',
+};
+
+const DE: Record<EventTemplateKey, string> = {
+  dm_request: '[DM-Anfrage von {name}] {text}',
+  dm_message: '[DM von {name}] {text}',
+  proposal_received: '[Vorschlag von {name}] {text}{?metadata.expiresIn: (läuft in {metadata.expiresIn} Min. ab)}',
+  proposal_accepted: '[Vorschlag angenommen von {name}] {text}',
+  chat_mention:
+    '[Chat in {?metadata.buildingId:Gebäude {metadata.buildingId}}{!metadata.buildingId:Zone {metadata.zoneId|?}}] {name}: {text}',
+  owner_message: '[Nachricht von deinem Menschen] {text}',
+  building_activity: '[Aktivität in {metadata.buildingId|unbekanntem Gebäude}] {name}: {text}',
+  artifact_reaction: '[{name} hat mit {metadata.reaction} auf {metadata.artifactId|ein Artefakt} reagiert] {text}',
+  pending_summary: '[Verpasst] {text}',
+  welcome: '[Stadt] {text}',
+  digest: '[Stadt-Zusammenfassung] {text}',
+  default: '[{eventType}] {name}: {text}{?metadata: ({metadata})}',
+};
+
+const ES: Record<EventTemplateKey, string> = {
+  dm_request: '[Solicitud de DM de {name}] {text}',
+  dm_message: '[DM de {name}] {text}',
+  proposal_received: '[Propuesta de {name}] {text}{?metadata.expiresIn: (caduca en {metadata.expiresIn} min)}',
+  proposal_accepted: '[Propuesta aceptada por {name}] {text}',
+  chat_mention:
+    '[Chat en {?metadata.buildingId:el edificio {metadata.buildingId}}{!metadata.buildingId:la zona {metadata.zoneId|?}}] {name}: {text}',
+  owner_message: '[Mensaje de tu humano] {text}',
+  building_activity: '[Actividad en {metadata.buildingId|un edificio desconocido}] {name}: {text}',
+  artifact_reaction: '[{name} reaccionó con {metadata.reaction} a {metadata.artifactId|un artefacto}] {text}',
+  pending_summary: '[Puesta al día] {text}',
+  welcome: '[Ciudad] {text}',
+  digest: '[Resumen de la ciudad] {text}',
+  default: '[{eventType}] {name}: {text}{?metadata: ({metadata})}',
+};
+
+const FR: Record<EventTemplateKey, string> = {
+  dm_request: '[Demande de DM de {name}] {text}',
+  dm_message: '[DM de {name}] {text}',
+  proposal_received: '[Proposition de {name}] {text}{?metadata.expiresIn: (expire dans {metadata.expiresIn} min)}',
+  proposal_accepted: '[Proposition acceptée par {name}] {text}',
+  chat_mention:
+    '[Chat dans {?metadata.buildingId:le bâtiment {metadata.buildingId}}{!metadata.buildingId:la zone {metadata.zoneId|?}}] {name} : {text}',
+  owner_message: '[Message de ton humain] {text}',
+  building_activity: '[Activité dans {metadata.buildingId|un bâtiment inconnu}] {name} : {text}',
+  artifact_reaction: '[{name} a réagi avec {metadata.reaction} à {metadata.artifactId|un artefact}] {text}',
+  pending_summary: '[Rattrapage] {text}',
+  welcome: '[Ville] {text}',
+  digest: '[Résumé de la ville] {text}',
+  default: '[{eventType}] {name} : {text}{?metadata: ({metadata})}',
+};
+
+export const LOCALE_PACKS: Readonly<Record<TemplateLocale, Readonly<Record<EventTemplateKey, string>>>> = {
+  en: EN,
+  de: DE,
+  es: ES,
+  fr: FR,
+};
+
+export const TEMPLATE_LOCALES = Object.keys(LOCALE_PACKS) as TemplateLocale[];
+
+/** Every key a locale pack covers: each known event type, plus `default` for unknown types. */
+export const EVENT_TEMPLATE_KEYS = Object.keys(EN) as EventTemplateKey[];
+
+// Accounts may also template event types this client does not know yet
+const EVENT_TYPE_KEY = /^[a-z][a-z0-9_]*$/;
+
+// ── Parsing ──
+
+// `name` and `text` are shorthands for the sanitized sender name and text,
+// and bare `metadata` lists every metadata field; metadata fields are
+// open-ended because the server adds new ones freely
+const FIELD_PATH = /^(?:name|text|eventType|seq|timestamp|from\.(?:id|name|avatar)|metadata(?:\.[A-Za-z_][A-Za-z0-9_]*)?)$/;
+
+type TemplateNode =
+  | string
+  | { kind: 'field'; path: string; fallback?: string }
+  | { kind: 'section'; path: string; negate: boolean; body: TemplateNode[] };
+
+/** A parsed template, ready to render. */
+export interface CompiledTemplate {
+  readonly source: string;
+  readonly nodes: readonly TemplateNode[];
+}
+
+/**
+ * Parse a template. Placeholders:
+ * - `{path}` — a field, empty when missing
+ * - `{path|fallback}` — a field, or the fallback text when missing
+ * - `{?path:...}` / `{!path:...}` — a section shown only when the field is present / missing
+ * - `{{` and `}}` — literal braces
+ *
+ * Paths are `name`, `text`, `eventType`, `seq`, `timestamp`, `from.id`,
+ * `from.name`, `from.avatar`, `metadata.<field>` and `metadata` (all of
+ * them, as `key: value` pairs).
+ */
+export function compileTemplate(source: string, key = 'template'): CompiledTemplate {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new TemplateError(key, `${message} at position ${pos}`);
+  };
+
+  const readPath = (terminators: string): string => {
+    const start = pos;
+    while (pos < source.length && !terminators.includes(source[pos])) pos++;
+    const path = source.slice(start, pos).trim();
+    if (!FIELD_PATH.test(path)) fail(`unknown field "${path}"`);
+    return path;
+  };
+
+  const parse = (inSection: boolean): TemplateNode[] => {
+    const nodes: TemplateNode[] = [];
+    let literal = '';
+
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === '{' && source[pos + 1] === '{') {
+        literal += '{';
+        pos += 2;
+      } else if (ch === '}' && source[pos + 1] === '}') {
+        literal += '}';
+        pos += 2;
+      } else if (ch === '}') {
+        if (!inSection) fail('unmatched "}"');
+        break;
+      } else if (ch === '{') {
+        if (literal) nodes.push(literal);
+        literal = '';
+        pos++;
+        nodes.push(parsePlaceholder());
+      } else {
+        literal += ch;
+        pos++;
+      }
+    }
+
+    if (literal) nodes.push(literal);
+    return nodes;
+  };
+
+  const parsePlaceholder = (): TemplateNode => {
+    const marker = source[pos];
+    if (marker === '?' || marker === '!') {
+      pos++;
+      const path = readPath(':}');
+      if (source[pos] !== ':') fail('expected ":" after section field');
+      pos++;
+      const body = parse(true);
+      if (source[pos] !== '}') fail('unclosed section');
+      pos++;
+      return { kind: 'section', path, negate: marker === '!', body };
+    }
+
+    const path = readPath('|}{');
+    let fallback: string | undefined;
+    if (source[pos] === '|') {
+      const start = ++pos;
+      while (pos < source.length && source[pos] !== '}' && source[pos] !== '{') pos++;
+      fallback = source.slice(start, pos);
+    }
+    if (source[pos] !== '}') fail('unclosed placeholder');
+    pos++;
+    return { kind: 'field', path, fallback };
+  };
+
+  return { source, nodes: parse(false) };
+}
+
+/**
+ * Render a compiled template. `resolve` returns a field's display value,
+ * or undefined when the event does not have it. Empty values count as
+ * missing for fallbacks and sections.
+ */
+export function renderTemplate(
+  template: CompiledTemplate,
+  resolve: (path: string) => string | undefined,
+): string {
+  const render = (nodes: readonly TemplateNode[]): string => {
+    let out = '';
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        out += node;
+      } else if (node.kind === 'field') {
+        out += resolve(node.path) || (node.fallback ?? '');
+      } else if (Boolean(resolve(node.path)) !== node.negate) {
+        out += render(node.body);
+      }
+    }
+    return out;
+  };
+  return render(template.nodes).trim();
+}
+
+// ── Event Template Sets ──
+
+/** One compiled template per event type, plus `default`. */
+export type EventTemplates = ReadonlyMap<string, CompiledTemplate>;
+
+export interface EventTemplateOptions {
+  locale?: TemplateLocale;
+  templates?: Partial<Record<string, string>>;
+}
+
+/**
+ * Problems with an account's template config, as readable messages.
+ * Empty when the locale exists and every override parses.
+ */
+export function validateEventTemplates(opts: EventTemplateOptions): string[] {
+  const errors: string[] = [];
+  if (opts.locale !== undefined && !TEMPLATE_LOCALES.includes(opts.locale)) {
+    errors.push(`Unknown template locale "${opts.locale}" (expected one of ${TEMPLATE_LOCALES.join(', ')})`);
+  }
+  for (const [key, source] of Object.entries(opts.templates ?? {})) {
+    if (!EVENT_TYPE_KEY.test(key)) {
+      errors.push(`Invalid event template key "${key}" (expected an event type or "default")`);
+    } else if (typeof source !== 'string') {
+      errors.push(`Event template "${key}" must be a string`);
+    } else {
+      try {
+        compileTemplate(source, key);
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Compile an account's templates: its overrides on top of its locale pack
+ * (English by default), plus templates for event types the packs do not
+ * cover. Throws TemplateError listing every problem.
+ */
+export function compileEventTemplates(opts: EventTemplateOptions = {}): EventTemplates {
+  const errors = validateEventTemplates(opts);
+  if (errors.length) throw new TemplateError('eventTemplates', errors.join('; '));
+
+  const pack = LOCALE_PACKS[opts.locale ?? 'en'];
+  const compiled = new Map<string, CompiledTemplate>();
+  for (const key of EVENT_TEMPLATE_KEYS) {
+    compiled.set(key, compileTemplate(opts.templates?.[key] ?? pack[key], key));
+  }
+  for (const [key, source] of Object.entries(opts.templates ?? {})) {
+    if (!compiled.has(key) && source !== undefined) compiled.set(key, compileTemplate(source, key));
+  }
+  return compiled;
+}
+
+export const DEFAULT_EVENT_TEMPLATES: EventTemplates = compileEventTemplates();
@@ -0,0 +1,53 @@
+import type { OpenClawConfig } from 'openclaw/plugin-sdk';
+
+const DEFAULT_REFRESH_TIMEOUT_MS = 10_000;
+
+/**
+ * Exchange an expired JWT for a fresh one via POST /agents/refresh.
+ * Throws when the request fails or the response carries no token.
+ */
+export async function requestTokenRefresh(
+  apiBase: string,
+  token: string,
+  opts: { timeoutMs?: number } = {},
+): Promise<string> {
+  const resp = await fetch(`${apiBase}/agents/refresh`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+    signal: AbortSignal.timeout(opts.timeoutMs ?? DEFAULT_REFRESH_TIMEOUT_MS),
+  });
+  if (!resp.ok) {
+    throw new Error(`POST /agents/refresh failed: ${resp.status} ${resp.statusText}`);
+  }
+
+  const body = await resp.json() as Record<string, unknown>;
+  const next = body.jwt ?? body.token;
+  if (typeof next !== 'string' || !next) {
+    throw new Error('POST /agents/refresh returned no token');
+  }
+  return next;
+}
+
+/**
+ * Return a copy of the config with the account's apiKey replaced. Writes
+ * to accounts.<accountId> when that entry exists, otherwise to the flat
+ * channels.openclawcity form (mirrors resolveAccount's lookup order).
+ */
+export function withRefreshedApiKey(cfg: OpenClawConfig, accountId: string, apiKey: string): OpenClawConfig {
+  const channels = (cfg.channels ?? {}) as Record<string, unknown>;
+  const occ = asRecord(channels.openclawcity);
+  const accounts = asRecord(occ.accounts);
+  const account = accounts[accountId];
+
+  const nextOcc = account && typeof account === 'object'
+    ? { ...occ, accounts: { ...accounts, [accountId]: { ...account, apiKey } } }
+    : { ...occ, apiKey };
+
+  return { ...cfg, channels: { ...channels, openclawcity: nextOcc } };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
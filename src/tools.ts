@@ -0,0 +1,50 @@
+import type { OpenClawPluginApi, AgentToolResult } from 'openclaw/plugin-sdk';
+import type { OpenClawCityAdapter } from './adapter.js';
+import { CITY_ACTIONS, actionParamsJsonSchema } from './actions.js';
+import type { CityActionName } from './types.js';
+
+type AdapterLookup = (accountId: string) => OpenClawCityAdapter | undefined;
+
+function textResult(payload: unknown): AgentToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(payload) }] };
+}
+
+/**
+ * Register one agent tool per city action (openclawcity_move,
+ * openclawcity_enter_building, ...) so a turn can act in the city through
+ * the live channel instead of shelling out to the REST API.
+ */
+export function registerCityTools(api: OpenClawPluginApi, getAdapter: AdapterLookup): void {
+  if (!api.registerTool) return;
+
+  for (const action of Object.keys(CITY_ACTIONS) as CityActionName[]) {
+    const schema = actionParamsJsonSchema(action);
+    const properties = schema.properties as Record<string, unknown>;
+
+    api.registerTool({
+      name: `openclawcity_${action}`,
+      description: `${CITY_ACTIONS[action].description} (OpenClawCity)`,
+      parameters: {
+        ...schema,
+        properties: {
+          ...properties,
+          accountId: { type: 'string', description: 'OpenClawCity account (defaults to "default")' },
+        },
+      },
+      execute: async (_toolCallId, params) => {
+        const { accountId, ...actionParams } = params ?? {};
+        const id = typeof accountId === 'string' ? accountId : 'default';
+        const adapter = getAdapter(id);
+        if (!adapter) {
+          return textResult({ ok: false, error: `OpenClawCity account "${id}" is not running` });
+        }
+        try {
+          const result = await adapter.performAction(action, actionParams);
+          return textResult({ ok: true, data: result.data ?? null });
+        } catch (err) {
+          return textResult({ ok: false, error: err instanceof Error ? err.message : String(err) });
+        }
+      },
+    }, { optional: true });
+  }
+}
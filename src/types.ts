@@ -1,3 +1,4 @@
+
 // ── Connection State ──
 
 export enum ConnectionState {
@@ -10,7 +11,8 @@ export enum ConnectionState {
 
 // ── City Event Types ──
 
-export type CityEventType =
+/** Event types this client formats and routes itself. */
+export type KnownCityEventType =
   | 'dm_request'
   | 'dm_message'
   | 'proposal_received'
@@ -19,7 +21,20 @@ export type CityEventType =
   | 'owner_message'
   | 'building_activity'
   | 'artifact_reaction'
-  | 'welcome';
+  | 'pending_summary'
+  | 'welcome'
+  | 'digest';
+
+/**
+ * Any city_event subtype. The server adds new ones without notice, so
+ * unknown types stay representable and fall through to the default handler.
+ */
+export type CityEventType = KnownCityEventType | (string & {});
+
+/** Keys of a locale pack: every known event type, plus `default` for unknown ones. */
+export type EventTemplateKey = KnownCityEventType | 'default';
+
+export type TemplateLocale = 'en' | 'de' | 'es' | 'fr';
 
 export interface CityEventFrom {
   id: string;
@@ -46,13 +61,18 @@ export interface CityEvent {
   text?: string;
   timestamp?: number;
   metadata: CityEventMetadata;
+  /**
+   * Built locally (e.g. from welcome pending_items) rather than sent by the
+   * server. Synthetic events have no server seq and are never acked.
+   */
+  synthetic?: boolean;
 }
 
 // ── Welcome Frame (server → client) ──
 
 export interface WelcomeLocation {
-  zoneId: number;
-  zoneName: string;
+  zoneId?: number;
+  zoneName?: string;
   buildingId?: string | null;
   buildingName?: string | null;
 }
@@ -72,7 +92,7 @@ export interface WelcomeFrame {
   location?: WelcomeLocation;
   // Server uses snake_case field names
   nearby_bots?: NearbyBot[];
-  pending_items?: Record<string, unknown>;
+  pending_items?: PendingItemsPayload;
   // Keep these for backward compat if server ever changes
   nearby?: NearbyBot[];
   pending?: CityEvent[];
@@ -111,25 +131,148 @@ export type AgentReplyAction =
   | 'leave_building'
   | 'execute_action'
   | 'react_to_artifact'
-  | 'propose';
+  | 'propose'
+  | 'accept_proposal'
+  | 'decline_proposal'
+  | 'counter_proposal'
+  | 'accept_dm'
+  | 'decline_dm';
+
+interface AgentReplyBase {
+  type: 'agent_reply';
+  /** Client-generated id, echoed back on the matching action_result */
+  requestId?: string;
+}
+
+/** Say something in the current zone, or in a specific zone or building. */
+export interface SpeakReply extends AgentReplyBase {
+  action: 'speak';
+  text: string;
+  zoneId?: number;
+  buildingId?: string;
+}
 
-export interface AgentReply {
+export interface DmReply extends AgentReplyBase {
+  action: 'dm_reply';
+  text: string;
+  conversationId: string;
+}
+
+export interface OwnerReply extends AgentReplyBase {
+  action: 'owner_reply';
+  text: string;
+}
+
+/** One reply type per city action, carrying that action's params. */
+export type CityActionReply = {
+  [A in CityActionName]: AgentReplyBase & { action: A } & CityActionParams[A];
+}[CityActionName];
+
+/**
+ * Every agent_reply, discriminated by action. Field names here are the
+ * plugin's contract; serializeReply (outbound.ts) maps them to the wire
+ * names the server expects.
+ */
+export type AgentReply = SpeakReply | DmReply | OwnerReply | CityActionReply;
+
+/** The reply type for one action. */
+export type AgentReplyOf<A extends AgentReplyAction> = Extract<AgentReply, { action: A }>;
+
+/** An agent_reply as serialized onto the socket. */
+export interface AgentReplyFrame {
   type: 'agent_reply';
   action: AgentReplyAction;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+// ── City Actions (agent-initiated agent_reply payloads) ──
+
+export type CityActionName =
+  | 'move'
+  | 'enter_building'
+  | 'leave_building'
+  | 'execute_action'
+  | 'react_to_artifact'
+  | 'propose'
+  | 'accept_proposal'
+  | 'decline_proposal'
+  | 'counter_proposal'
+  | 'accept_dm'
+  | 'decline_dm';
+
+export interface MoveParams {
+  zoneId: number;
+}
+
+export interface EnterBuildingParams {
+  buildingId: string;
+}
+
+export type LeaveBuildingParams = Record<string, never>;
+
+export interface ExecuteActionParams {
+  actionKey: string;
+  buildingId?: string;
+  params?: Record<string, unknown>;
+}
+
+export interface ReactToArtifactParams {
+  artifactId: string;
+  reaction: string;
+}
+
+export interface ProposeParams {
+  targetId: string;
+  text: string;
+}
+
+export interface AcceptProposalParams {
+  proposalId: string;
+  text?: string;
+}
+
+export interface DeclineProposalParams {
+  proposalId: string;
+  text?: string;
+}
+
+export interface CounterProposalParams {
+  proposalId: string;
+  text: string;
+}
+
+export interface AcceptDmParams {
+  targetId: string;
   conversationId?: string;
   text?: string;
-  targetId?: string;
-  buildingId?: string;
-  artifactId?: string;
-  reaction?: string;
-  zoneId?: number;
-  [key: string]: unknown;
+}
+
+export interface DeclineDmParams {
+  targetId: string;
+  conversationId?: string;
+  text?: string;
+}
+
+export interface CityActionParams {
+  move: MoveParams;
+  enter_building: EnterBuildingParams;
+  leave_building: LeaveBuildingParams;
+  execute_action: ExecuteActionParams;
+  react_to_artifact: ReactToArtifactParams;
+  propose: ProposeParams;
+  accept_proposal: AcceptProposalParams;
+  decline_proposal: DeclineProposalParams;
+  counter_proposal: CounterProposalParams;
+  accept_dm: AcceptDmParams;
+  decline_dm: DeclineDmParams;
 }
 
 // ── Server → Client Frames ──
 
 export interface ActionResultFrame {
   type: 'action_result';
+  requestId?: string;
   success: boolean;
   data?: Record<string, unknown>;
   error?: string;
@@ -160,10 +303,115 @@ export type ServerFrame =
   | PausedFrame
   | ResumedFrame;
 
-export type ClientFrame = HelloFrame | ResumeFrame | AckFrame | AgentReply;
+/** A server frame of a type this client does not know; passed through as received. */
+export interface UnknownFrame {
+  type: string;
+  [key: string]: unknown;
+}
+
+export type ClientFrame = HelloFrame | ResumeFrame | AckFrame | AgentReplyFrame;
+
+// ── Pending Items (welcome catch-up) ──
+// Work that piled up while the bot was offline, reported once per welcome.
+// The server uses snake_case; every list is optional.
+
+export interface PendingDmPayload {
+  conversation_id: string;
+  from?: CityEventFrom;
+  unread_count?: number;
+  last_message?: string;
+  timestamp?: number;
+}
+
+export interface PendingDmRequestPayload {
+  conversation_id?: string;
+  from?: CityEventFrom;
+  message?: string;
+  timestamp?: number;
+}
+
+export interface PendingProposalPayload {
+  proposal_id: string;
+  from?: CityEventFrom;
+  message?: string;
+  expires_in?: number;
+  timestamp?: number;
+}
+
+export interface PendingOwnerMessagePayload {
+  id?: string;
+  message: string;
+  timestamp?: number;
+}
+
+export interface PendingItemsPayload {
+  unread_dms?: PendingDmPayload[];
+  dm_requests?: PendingDmRequestPayload[];
+  proposals?: PendingProposalPayload[];
+  owner_messages?: PendingOwnerMessagePayload[];
+  [key: string]: unknown;
+}
+
+/** A pending item after normalization — one entry per DM thread, request, proposal or owner message. */
+export type PendingItem =
+  | { kind: 'dm'; id: string; conversationId: string; from: CityEventFrom; text: string; unreadCount: number; timestamp?: number }
+  | { kind: 'dm_request'; id: string; conversationId?: string; from: CityEventFrom; text: string; timestamp?: number }
+  | { kind: 'proposal'; id: string; proposalId: string; from: CityEventFrom; text: string; expiresIn?: number; timestamp?: number }
+  | { kind: 'owner_message'; id: string; text: string; timestamp?: number };
+
+// ── City Context (parsed /world/heartbeat) ──
+
+export interface CityContextLocation {
+  zoneId?: number;
+  zoneName?: string;
+  buildingName?: string;
+}
+
+export interface CityContext {
+  location?: CityContextLocation;
+  nearby: string[];
+  needs: string[];
+  goals: string[];
+}
+
+export type CityContextField = keyof CityContext;
+
+// ── Event Rules ──
+
+export type EventRuleAction = 'dispatch' | 'drop' | 'route' | 'digest';
+
+/** Every listed criterion must match; an array matches any of its values. */
+export interface EventRuleMatch {
+  eventType?: CityEventType | CityEventType[];
+  senderId?: string | string[];
+  zoneId?: number | number[];
+  buildingId?: string | string[];
+}
+
+/**
+ * Overrides for resolveAgentRoute. peerId may use {senderId}, {zoneId},
+ * {buildingId}, {conversationId} and {eventType} placeholders.
+ */
+export interface EventRouteOverride {
+  agentId?: string;
+  peerId?: string;
+  chatType?: 'direct' | 'group';
+}
+
+export interface EventRule {
+  match?: EventRuleMatch;
+  action: EventRuleAction;
+  /** Required for action 'route'. */
+  route?: EventRouteOverride;
+}
 
 // ── Config Types ──
 
+/**
+ * One account's config, as written by the user. Validated by the zod
+ * schema in config-schema.ts, which checks at compile time that this
+ * interface matches it; kept by hand so the published types need no zod.
+ */
 export interface OpenClawCityAccountConfig {
   gatewayUrl?: string;
   apiKey: string;
@@ -171,6 +419,31 @@ export interface OpenClawCityAccountConfig {
   reconnectBaseMs?: number;
   reconnectMaxMs?: number;
   pingIntervalMs?: number;
+  handshake?: 'query' | 'frame';
+  actionTimeoutMs?: number;
+  outboundQueueSize?: number;
+  outboundQueueTtlMs?: number;
+  outboundQueueOverflow?: 'drop-oldest' | 'reject';
+  dispatchRetries?: number;
+  dispatchRetryBaseMs?: number;
+  dispatchFailurePolicy?: 'dead-letter' | 'replay';
+  maxConcurrentDispatches?: number;
+  pausedReplies?: 'hold' | 'reject';
+  resumeDrainIntervalMs?: number;
+  pausedBacklogSize?: number;
+  pendingItems?: 'summary' | 'events' | 'off';
+  eventRules?: EventRule[];
+  expiredProposals?: 'annotate' | 'drop';
+  digestEventTypes?: CityEventType[];
+  digestWindowMs?: number;
+  digestMaxEvents?: number;
+  templateLocale?: TemplateLocale;
+  /** Keyed by event type, or `default` for types without their own. */
+  eventTemplates?: Record<string, string>;
+  welcomeTurn?: 'off' | 'first' | 'always';
+  cityContextMaxTokens?: number;
+  heartbeatTtlMs?: number;
+  heartbeatTimeoutMs?: number;
   enabled?: boolean;
 }
 
@@ -189,4 +462,29 @@ export interface MessageEnvelope {
     text: string;
   };
   metadata: Record<string, unknown>;
+  /** The conversation the event belongs to (see EnvelopeChat). */
+  chat: EnvelopeChat;
+  /** Who wrote the content: the bot's owner, or other bots (untrusted). */
+  trust: TrustLevel;
+  /** Set when an event rule routes this event to another agent or session. */
+  route?: EventRouteOverride;
+}
+
+export type TrustLevel = 'owner' | 'bot';
+
+/**
+ * Zone chat and building activity are group chats keyed by place, so the
+ * agent keeps one session per zone or building; everything else is a
+ * direct chat with the sender.
+ */
+export interface EnvelopeChat {
+  type: 'direct' | 'group';
+  /** Sender id for direct chats, `zone:<id>` or `building:<id>` for groups. */
+  peerId: string;
+  label: string;
+  /** True when the bot was @-mentioned (always true for direct chats). */
+  wasMentioned: boolean;
+  /** Where replies in a group chat are spoken. */
+  zoneId?: number;
+  buildingId?: string;
 }
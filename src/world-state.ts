@@ -0,0 +1,126 @@
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+// Start a background refresh once this fraction of the TTL has passed
+const REFRESH_AHEAD_RATIO = 0.8;
+
+/**
+ * Fetch the raw /world/heartbeat body. Throws on a non-2xx response; the
+ * signal aborts the request (timeout or shutdown).
+ */
+export async function requestHeartbeat(apiBase: string, token: string, signal: AbortSignal): Promise<string> {
+  const resp = await fetch(`${apiBase}/world/heartbeat`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+    signal,
+  });
+  if (!resp.ok) {
+    throw new Error(`GET /world/heartbeat failed: ${resp.status} ${resp.statusText}`);
+  }
+  return resp.text();
+}
+
+export interface WorldStateCacheOptions {
+  fetch: (signal: AbortSignal) => Promise<string>;
+  ttlMs?: number;
+  timeoutMs?: number;
+  logger?: {
+    info?: (...args: unknown[]) => void;
+    warn?: (...args: unknown[]) => void;
+  };
+}
+
+/**
+ * Per-account cache of the /world/heartbeat response.
+ *
+ * - Fresh data is returned as is; past 80% of the TTL a background refresh
+ *   starts, and expired data is still served while it revalidates.
+ * - Only a cold cache (nothing fetched yet, or just invalidated) makes the
+ *   caller wait, and never longer than timeoutMs.
+ * - Concurrent callers share one in-flight request.
+ * - invalidate() (location changed) drops the data and refetches at once;
+ *   responses from before the invalidation are discarded.
+ */
+export class WorldStateCache {
+  private data: string | null = null;
+  private fetchedAt = 0;
+  private generation = 0;
+  private inFlight: { generation: number; promise: Promise<string | null> } | null = null;
+  private readonly controllers = new Set<AbortController>();
+  private disposed = false;
+
+  private readonly fetcher: WorldStateCacheOptions['fetch'];
+  private readonly ttlMs: number;
+  private readonly timeoutMs: number;
+  private readonly logger: NonNullable<WorldStateCacheOptions['logger']>;
+
+  constructor(opts: WorldStateCacheOptions) {
+    this.fetcher = opts.fetch;
+    this.ttlMs = opts.ttlMs ?? DEFAULT_TTL_MS;
+    this.timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.logger = opts.logger ?? {};
+  }
+
+  /** Current heartbeat text, or null when none could be fetched. */
+  async get(): Promise<string | null> {
+    if (this.data === null) return this.refresh();
+
+    const age = Date.now() - this.fetchedAt;
+    if (age >= this.ttlMs * REFRESH_AHEAD_RATIO) {
+      this.logger.info?.(`[OCC] Heartbeat ${age >= this.ttlMs ? 'expired' : 'aging'} (age=${Math.round(age / 1000)}s) — revalidating in background`);
+      void this.refresh();
+    }
+    return this.data;
+  }
+
+  /** Drop cached data (e.g. the bot moved) and start fetching the new state. */
+  invalidate(reason: string): void {
+    if (this.disposed) return;
+    this.logger.info?.(`[OCC] Heartbeat cache invalidated: ${reason}`);
+    this.generation++;
+    this.data = null;
+    this.fetchedAt = 0;
+    void this.refresh();
+  }
+
+  /** Abort in-flight requests; later calls return null without fetching. */
+  dispose(): void {
+    this.disposed = true;
+    for (const controller of this.controllers) controller.abort();
+    this.controllers.clear();
+  }
+
+  private refresh(): Promise<string | null> {
+    if (this.disposed) return Promise.resolve(this.data);
+    if (this.inFlight?.generation === this.generation) return this.inFlight.promise;
+
+    const generation = this.generation;
+    const promise = this.fetchOnce(generation);
+    const entry = { generation, promise };
+    this.inFlight = entry;
+    void promise.finally(() => {
+      if (this.inFlight === entry) this.inFlight = null;
+    });
+    return promise;
+  }
+
+  private async fetchOnce(generation: number): Promise<string | null> {
+    const controller = new AbortController();
+    this.controllers.add(controller);
+    const timer = setTimeout(() => controller.abort(new Error(`timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+
+    try {
+      const data = await this.fetcher(controller.signal);
+      if (generation !== this.generation) return this.data; // invalidated meanwhile
+      this.data = data;
+      this.fetchedAt = Date.now();
+      this.logger.info?.(`[OCC] Heartbeat fetched (${data.length} bytes)`);
+      return data;
+    } catch (err) {
+      const reason = controller.signal.aborted ? String(controller.signal.reason ?? err) : String(err);
+      this.logger.warn?.(`[OCC] Heartbeat fetch failed: ${reason}`);
+      return this.data; // keep serving stale data if there is any
+    } finally {
+      clearTimeout(timer);
+      this.controllers.delete(controller);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ActionValidationError,
+  CITY_ACTIONS,
+  actionParamsJsonSchema,
+  buildActionReply,
+  isCityActionName,
+  validateActionParams,
+} from '../src/actions.js';
+
+describe('validateActionParams', () => {
+  it('accepts valid params for every action', () => {
+    expect(validateActionParams('move', { zoneId: 3 })).toEqual({ zoneId: 3 });
+    expect(validateActionParams('enter_building', { buildingId: 'cafe-1' })).toEqual({ buildingId: 'cafe-1' });
+    expect(validateActionParams('leave_building', {})).toEqual({});
+    expect(validateActionParams('leave_building', undefined)).toEqual({});
+    expect(validateActionParams('execute_action', { actionKey: 'paint', params: { color: 'red' } }))
+      .toEqual({ actionKey: 'paint', params: { color: 'red' } });
+    expect(validateActionParams('react_to_artifact', { artifactId: 'a1', reaction: '🔥' }))
+      .toEqual({ artifactId: 'a1', reaction: '🔥' });
+    expect(validateActionParams('propose', { targetId: 'b2', text: 'Jam?' }))
+      .toEqual({ targetId: 'b2', text: 'Jam?' });
+  });
+
+  it('rejects missing required fields', () => {
+    expect(() => validateActionParams('move', {})).toThrow(/missing "zoneId"/);
+    expect(() => validateActionParams('propose', { targetId: 'b2' })).toThrow(/missing "text"/);
+  });
+
+  it('rejects wrong types', () => {
+    expect(() => validateActionParams('move', { zoneId: '3' })).toThrow(/"zoneId" must be an integer/);
+    expect(() => validateActionParams('move', { zoneId: 1.5 })).toThrow(/integer/);
+    expect(() => validateActionParams('enter_building', { buildingId: '  ' })).toThrow(/non-empty string/);
+    expect(() => validateActionParams('execute_action', { actionKey: 'x', params: [] })).toThrow(/an object/);
+  });
+
+  it('rejects unexpected fields and non-object params', () => {
+    expect(() => validateActionParams('leave_building', { zoneId: 1 })).toThrow(/unexpected field "zoneId"/);
+    expect(() => validateActionParams('move', 'zone 3')).toThrow(/expected an object/);
+  });
+
+  it('throws ActionValidationError', () => {
+    const err = (() => {
+      try {
+        validateActionParams('move', {});
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(err).toBeInstanceOf(ActionValidationError);
+    expect((err as ActionValidationError).action).toBe('move');
+  });
+});
+
+describe('buildActionReply', () => {
+  it('builds an agent_reply frame', () => {
+    expect(buildActionReply('react_to_artifact', { artifactId: 'a1', reaction: '👍' })).toEqual({
+      type: 'agent_reply',
+      action: 'react_to_artifact',
+      artifactId: 'a1',
+      reaction: '👍',
+    });
+  });
+});
+
+describe('action metadata', () => {
+  it('recognizes known action names', () => {
+    expect(isCityActionName('move')).toBe(true);
+    expect(isCityActionName('speak')).toBe(false);
+    expect(isCityActionName('toString')).toBe(false);
+  });
+
+  it('exposes a JSON schema for each action', () => {
+    for (const action of Object.keys(CITY_ACTIONS) as (keyof typeof CITY_ACTIONS)[]) {
+      const schema = actionParamsJsonSchema(action);
+      expect(schema.type).toBe('object');
+      expect(schema.required).toEqual(CITY_ACTIONS[action].required);
+    }
+  });
+});
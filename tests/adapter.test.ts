@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { OpenClawCityAdapter, type AdapterOptions } from '../src/adapter.js';
+import { OpenClawCityAdapter, ActionFailedError, negotiateVersion, type AdapterOptions } from '../src/adapter.js';
+import { EventHandlerRegistry } from '../src/event-handlers.js';
 import { ConnectionState } from '../src/types.js';
 import type { WelcomeFrame } from '../src/types.js';
 
@@ -10,6 +11,7 @@ class MockWebSocket {
   static CLOSED = 3;
 
   readyState = MockWebSocket.OPEN;
+  url = '';
   private listeners: Record<string, ((...args: any[]) => void)[]> = {};
   sentMessages: string[] = [];
 
@@ -50,8 +52,9 @@ vi.mock('ws', () => {
     default: class FakeWebSocket {
       static OPEN = 1;
       static CLOSED = 3;
-      constructor() {
+      constructor(url: string) {
         mockWsInstance = new MockWebSocket();
+        mockWsInstance.url = url;
         mockWsInstances.push(mockWsInstance);
         return mockWsInstance as any;
       }
@@ -162,6 +165,142 @@ describe('OpenClawCityAdapter', () => {
     adapter.stop();
   });
 
+  // ── Handshake / Version Negotiation ──
+
+  it('sends a hello frame in frame handshake mode', async () => {
+    const opts = makeOpts();
+    opts.config.handshake = 'frame';
+    const adapter = new OpenClawCityAdapter(opts);
+
+    const p = adapter.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    const url = new URL(mockWsInstance.url);
+    expect(url.searchParams.has('token')).toBe(false);
+    expect(url.searchParams.get('version')).toBe('1');
+
+    mockWsInstance.emit('open');
+    expect(JSON.parse(mockWsInstance.sentMessages[0])).toEqual({
+      type: 'hello',
+      version: 1,
+      botId: 'test-bot-123',
+      token: 'test-token-abc',
+    });
+
+    mockWsInstance.emit('message', JSON.stringify(WELCOME));
+    await p;
+    expect(adapter.getState()).toBe(ConnectionState.CONNECTED);
+    adapter.stop();
+  });
+
+  it('sends a resume frame with lastAckSeq on reconnect in frame mode', async () => {
+    const opts = makeOpts();
+    opts.config.handshake = 'frame';
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 17, eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {},
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    mockWsInstance.emit('close', 1006, Buffer.from(''));
+    await vi.advanceTimersByTimeAsync(200);
+    mockWsInstance.emit('open');
+
+    expect(JSON.parse(mockWsInstance.sentMessages[0])).toMatchObject({ type: 'resume', lastAckSeq: 17 });
+    adapter.stop();
+  });
+
+  it('negotiates the highest shared protocol version', () => {
+    expect(negotiateVersion([1, 2, 3], [2, 3, 4])).toBe(3);
+    expect(negotiateVersion([1], [2])).toBeNull();
+  });
+
+  it('retries with a lower shared version on unsupported_version', async () => {
+    const opts = makeOpts({ protocolVersions: [1, 2] });
+    const adapter = new OpenClawCityAdapter(opts);
+    expect(adapter.getProtocolVersion()).toBe(2);
+
+    const p = adapter.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify({ type: 'error', reason: 'unsupported_version', supported: [1] }));
+    await p;
+
+    // Immediate retry, not a backoff
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockWsInstances.length).toBe(2);
+    expect(new URL(mockWsInstance.url).searchParams.get('version')).toBe('1');
+    expect(adapter.getProtocolVersion()).toBe(1);
+
+    adapter.stop();
+  });
+
+  it('stops with a clear error when no version is shared', async () => {
+    const onFatalError = vi.fn();
+    const opts = makeOpts({ onFatalError });
+    const adapter = new OpenClawCityAdapter(opts);
+
+    const p = adapter.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify({ type: 'error', reason: 'unsupported_version', supported: [2, 3] }));
+    await p;
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+    expect(mockWsInstances.length).toBe(1);
+    expect(onFatalError).toHaveBeenCalledWith('unsupported_version: client supports [1], server supports [2, 3]');
+  });
+
+  // ── Cursor Store ──
+
+  it('resumes from the stored cursor on first connect', async () => {
+    const cursorStore = {
+      load: vi.fn().mockResolvedValue(120),
+      save: vi.fn(),
+      flush: vi.fn().mockResolvedValue(undefined),
+    };
+    const opts = makeOpts({ cursorStore });
+    const adapter = await connectAdapter(opts);
+
+    expect(cursorStore.load).toHaveBeenCalledTimes(1);
+    expect(adapter.getLastAckSeq()).toBe(120);
+    expect(new URL(mockWsInstance.url).searchParams.get('lastAckSeq')).toBe('120');
+
+    // Reconnects use the in-memory cursor — the store is read only once
+    mockWsInstance.emit('close');
+    await vi.advanceTimersByTimeAsync(200);
+    expect(cursorStore.load).toHaveBeenCalledTimes(1);
+
+    adapter.stop();
+  });
+
+  it('saves acks to the cursor store and flushes on stop', async () => {
+    const cursorStore = {
+      load: vi.fn().mockResolvedValue(null),
+      save: vi.fn(),
+      flush: vi.fn().mockResolvedValue(undefined),
+    };
+    const opts = makeOpts({ cursorStore });
+    const adapter = await connectAdapter(opts);
+    expect(new URL(mockWsInstance.url).searchParams.has('lastAckSeq')).toBe(false);
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event',
+      seq: 8,
+      eventType: 'dm_message',
+      from: { id: 'u1', name: 'Bob' },
+      text: 'Hi',
+      metadata: {},
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(cursorStore.save).toHaveBeenCalledWith(8);
+
+    adapter.stop();
+    expect(cursorStore.flush).toHaveBeenCalled();
+  });
+
   // ── Reconnection ──
 
   it('exponential backoff timing', () => {
@@ -249,7 +388,7 @@ describe('OpenClawCityAdapter', () => {
     adapter.stop();
   });
 
-  it('still acks even when onMessage throws', async () => {
+  it('acks after retries are exhausted when onMessage keeps throwing', async () => {
     const opts = makeOpts({
       onMessage: vi.fn().mockRejectedValue(new Error('dispatch failed')),
     });
@@ -267,14 +406,194 @@ describe('OpenClawCityAdapter', () => {
     }));
     await vi.advanceTimersByTimeAsync(0);
 
+    // Not acked while local retries are pending
+    expect(mockWsInstance.sentMessages.filter((m) => m.includes('"ack"'))).toEqual([]);
+
+    // Default: 2 retries at 1s and 2s
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(opts.onMessage).toHaveBeenCalledTimes(3);
+
     // Should still have sent ack despite dispatch failure
-    const ack = JSON.parse(mockWsInstance.sentMessages[0]);
+    const ack = JSON.parse(mockWsInstance.sentMessages.find((m) => m.includes('"ack"'))!);
     expect(ack).toEqual({ type: 'ack', seq: 99 });
     expect(adapter.getLastAckSeq()).toBe(99);
 
     adapter.stop();
   });
 
+  it('acks normally when a retry succeeds', async () => {
+    const onMessage = vi.fn()
+      .mockRejectedValueOnce(new Error('transient'))
+      .mockResolvedValue(undefined);
+    const deadLetterStore = { append: vi.fn(), list: vi.fn(), remove: vi.fn() };
+    const opts = makeOpts({ onMessage, deadLetterStore });
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 5, eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {},
+    }));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onMessage).toHaveBeenCalledTimes(2);
+    expect(adapter.getLastAckSeq()).toBe(5);
+    expect(deadLetterStore.append).not.toHaveBeenCalled();
+
+    adapter.stop();
+  });
+
+  it('writes to the dead-letter store before acking a failed event', async () => {
+    const deadLetterStore = { append: vi.fn().mockResolvedValue(undefined), list: vi.fn(), remove: vi.fn() };
+    const opts = makeOpts({
+      onMessage: vi.fn().mockRejectedValue(new Error('boom')),
+      deadLetterStore,
+    });
+    opts.config.dispatchRetries = 0;
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 11, eventType: 'proposal_received', from: { id: 'u1', name: 'A' }, metadata: {},
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(deadLetterStore.append).toHaveBeenCalledWith(expect.objectContaining({
+      event: expect.objectContaining({ seq: 11 }),
+      error: 'Error: boom',
+      attempts: 1,
+    }));
+    expect(adapter.getLastAckSeq()).toBe(11);
+
+    adapter.stop();
+  });
+
+  it('falls back to server replay when the dead-letter store fails', async () => {
+    const deadLetterStore = { append: vi.fn().mockRejectedValue(new Error('disk full')), list: vi.fn(), remove: vi.fn() };
+    const opts = makeOpts({
+      onMessage: vi.fn().mockRejectedValue(new Error('boom')),
+      deadLetterStore,
+    });
+    opts.config.dispatchRetries = 0;
+    const adapter = await connectAdapter(opts);
+    mockWsInstance.sentMessages = [];
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 13, eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {},
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(deadLetterStore.append).toHaveBeenCalled();
+    expect(mockWsInstance.sentMessages.filter((m) => m.includes('"ack"'))).toEqual([]);
+    expect(adapter.getLastAckSeq()).toBe(0);
+    expect(opts.logger!.error).toHaveBeenCalledWith(expect.stringContaining('leaving it un-acked for server replay'));
+
+    adapter.stop();
+  });
+
+  it('leaves failed events un-acked with the replay policy', async () => {
+    const opts = makeOpts({
+      onMessage: vi.fn().mockRejectedValue(new Error('boom')),
+    });
+    opts.config.dispatchRetries = 0;
+    opts.config.dispatchFailurePolicy = 'replay';
+    const adapter = await connectAdapter(opts);
+    mockWsInstance.sentMessages = [];
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 12, eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {},
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockWsInstance.sentMessages.filter((m) => m.includes('"ack"'))).toEqual([]);
+    expect(adapter.getLastAckSeq()).toBe(0);
+
+    adapter.stop();
+  });
+
+  it('replays dead-lettered events and removes the ones that succeed', async () => {
+    const entry = (seq: number) => ({
+      event: { type: 'city_event', seq, eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {} },
+      error: 'Error: boom',
+      attempts: 3,
+      failedAt: 0,
+    });
+    const deadLetterStore = {
+      append: vi.fn(),
+      list: vi.fn().mockResolvedValue([entry(1), entry(2)]),
+      remove: vi.fn().mockResolvedValue(undefined),
+    };
+    const onMessage = vi.fn().mockImplementation(async (env: any) => {
+      if (env.metadata.seq === 2) throw new Error('still broken');
+    });
+    const opts = makeOpts({ onMessage, deadLetterStore });
+    opts.config.dispatchRetries = 0;
+    const adapter = new OpenClawCityAdapter(opts);
+
+    expect(await adapter.listDeadLetters()).toHaveLength(2);
+    const result = await adapter.replayDeadLetters();
+
+    expect(result).toEqual({ replayed: [1], failed: [2] });
+    expect(deadLetterStore.remove).toHaveBeenCalledWith([1]);
+  });
+
+  // ── Ordering ──
+
+  it('serializes events from the same conversation', async () => {
+    const releases: (() => void)[] = [];
+    const started: number[] = [];
+    const onMessage = vi.fn().mockImplementation((env: any) => {
+      started.push(env.metadata.seq);
+      return new Promise<void>((r) => releases.push(r));
+    });
+    const adapter = await connectAdapter(makeOpts({ onMessage }));
+
+    for (const seq of [1, 2]) {
+      mockWsInstance.emit('message', JSON.stringify({
+        type: 'city_event', seq, eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: { conversationId: 'c1' },
+      }));
+    }
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 3, eventType: 'dm_message', from: { id: 'u2', name: 'B' }, metadata: { conversationId: 'c2' },
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    // seq 2 waits for seq 1; seq 3 (other conversation) runs in parallel
+    expect(started).toEqual([1, 3]);
+
+    releases[1](); // finish seq 3 first
+    await vi.advanceTimersByTimeAsync(0);
+    expect(adapter.getLastAckSeq()).toBe(0); // seq 1 still in flight
+
+    releases[0](); // finish seq 1 → seq 2 starts
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 3, 2]);
+    expect(adapter.getLastAckSeq()).toBe(1);
+
+    releases[2]();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(adapter.getLastAckSeq()).toBe(3);
+
+    adapter.stop();
+  });
+
+  it('re-acks a replayed seq without running another turn', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+    const event = JSON.stringify({
+      type: 'city_event', seq: 4, eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {},
+    });
+
+    mockWsInstance.emit('message', event);
+    await vi.advanceTimersByTimeAsync(0);
+    mockWsInstance.sentMessages = [];
+
+    mockWsInstance.emit('message', event);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    expect(mockWsInstance.sentMessages.map((m) => JSON.parse(m))).toEqual([{ type: 'ack', seq: 4 }]);
+
+    adapter.stop();
+  });
+
   // ── Stop ──
 
   it('stops cleanly and does not reconnect', async () => {
@@ -308,77 +627,313 @@ describe('OpenClawCityAdapter', () => {
     adapter.stop();
   });
 
-  // ── Error Handling ──
+  it('reports pause changes with the pause message', async () => {
+    const onPauseChange = vi.fn();
+    const adapter = await connectAdapter(makeOpts({ onPauseChange }));
 
-  it('stops on auth_failed error', async () => {
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused', message: 'Owner break' }));
+    expect(adapter.getPauseMessage()).toBe('Owner break');
+    mockWsInstance.emit('message', JSON.stringify({ type: 'resumed' }));
+
+    expect(onPauseChange.mock.calls).toEqual([[true, 'Owner break'], [false, undefined]]);
+    adapter.stop();
+  });
+
+  it('only dispatches owner_message while paused and holds the rest un-acked', async () => {
     const opts = makeOpts();
     const adapter = await connectAdapter(opts);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused' }));
 
-    mockWsInstance.emit(
-      'message',
-      JSON.stringify({ type: 'error', reason: 'auth_failed', message: 'Bad token' })
-    );
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', eventType: 'chat_mention', seq: 1, from: { id: 'u1', name: 'A' }, text: 'hi',
+    }));
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', eventType: 'owner_message', seq: 2, from: { id: 'o1', name: 'Owner' }, text: 'status?',
+    }));
+    await vi.advanceTimersByTimeAsync(0);
 
-    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
-    expect(opts.onError).toHaveBeenCalled();
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    expect((opts.onMessage as any).mock.calls[0][0].metadata.eventType).toBe('owner_message');
+    const acks = mockWsInstance.sentMessages.filter((m) => m.includes('"ack"')).map((m) => JSON.parse(m).seq);
+    expect(acks).toEqual([2]);
+    expect(adapter.getPausedBacklogSize()).toBe(1);
+    // The cursor must not skip the held event
+    expect(adapter.getLastAckSeq()).toBe(0);
+
+    adapter.stop();
   });
 
-  it('stops on token_expired error', async () => {
+  it('drains the pause backlog at resumeDrainIntervalMs after resume', async () => {
     const opts = makeOpts();
+    opts.config.resumeDrainIntervalMs = 500;
     const adapter = await connectAdapter(opts);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused' }));
 
-    mockWsInstance.emit(
-      'message',
-      JSON.stringify({ type: 'error', reason: 'token_expired' })
-    );
+    for (const seq of [1, 2, 3]) {
+      mockWsInstance.emit('message', JSON.stringify({
+        type: 'city_event', eventType: 'chat_mention', seq, from: { id: `u${seq}`, name: 'A' }, text: 'hi',
+      }));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(opts.onMessage).not.toHaveBeenCalled();
 
-    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'resumed' }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(opts.onMessage).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(opts.onMessage).toHaveBeenCalledTimes(3);
+    expect(adapter.getLastAckSeq()).toBe(3);
+
+    adapter.stop();
   });
 
-  it('rejects connect promise if server sends error before welcome', async () => {
+  it('leaves events past pausedBacklogSize un-acked instead of holding them', async () => {
     const opts = makeOpts();
-    const adapter = new OpenClawCityAdapter(opts);
+    opts.config.pausedBacklogSize = 2;
+    opts.config.resumeDrainIntervalMs = 100;
+    const adapter = await connectAdapter(opts);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused' }));
 
-    const connectPromise = adapter.connect();
+    for (const seq of [1, 2, 3]) {
+      mockWsInstance.emit('message', JSON.stringify({
+        type: 'city_event', eventType: 'chat_mention', seq, from: { id: `u${seq}`, name: 'A' }, text: 'hi',
+      }));
+    }
     await vi.advanceTimersByTimeAsync(0);
-    mockWsInstance.emit('open');
+    expect(adapter.getPausedBacklogSize()).toBe(2);
+    expect(opts.logger!.warn).toHaveBeenCalledWith(expect.stringContaining('leaving seq=3 un-acked for server replay'));
 
-    // Server sends auth_failed instead of welcome
-    mockWsInstance.emit(
-      'message',
-      JSON.stringify({ type: 'error', reason: 'auth_failed', message: 'Invalid JWT' })
-    );
+    mockWsInstance.emit('message', JSON.stringify({ type: 'resumed' }));
+    await vi.advanceTimersByTimeAsync(300);
+    expect(opts.onMessage).toHaveBeenCalledTimes(2);
+    const acks = mockWsInstance.sentMessages.filter((m) => m.includes('"ack"')).map((m) => JSON.parse(m).seq);
+    expect(acks).toEqual([1, 2]);
+    expect(adapter.getLastAckSeq()).toBe(2);
 
-    // connect() should reject (not hang forever)
-    await expect(connectPromise).resolves.toBeUndefined();
-    // adapter stops itself on auth_failed
-    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+    adapter.stop();
   });
 
-  it('respects rate_limited retryAfter', async () => {
+  it('paces the backlog the server sends after resumed', async () => {
     const opts = makeOpts();
+    opts.config.resumeDrainIntervalMs = 500;
     const adapter = await connectAdapter(opts);
-    const instanceCountBefore = mockWsInstances.length;
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused' }));
+    mockWsInstance.emit('message', JSON.stringify({ type: 'resumed' }));
 
-    // Server sends rate_limited with retryAfter: 5 seconds
-    mockWsInstance.emit(
-      'message',
-      JSON.stringify({ type: 'error', reason: 'rate_limited', retryAfter: 5 })
-    );
+    // Nothing arrived while paused; the server replays its queue now
+    for (const seq of [1, 2, 3]) {
+      mockWsInstance.emit('message', JSON.stringify({
+        type: 'city_event', eventType: 'chat_mention', seq, from: { id: `u${seq}`, name: 'A' }, text: 'hi',
+      }));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(opts.onMessage).not.toHaveBeenCalled();
+    expect(adapter.getPausedBacklogSize()).toBe(3);
 
-    // Should NOT reconnect immediately
-    await vi.advanceTimersByTimeAsync(1000);
-    expect(mockWsInstances.length).toBe(instanceCountBefore);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(opts.onMessage).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(opts.onMessage).toHaveBeenCalledTimes(3);
+    expect(adapter.getLastAckSeq()).toBe(3);
 
-    // After retryAfter (5s), should reconnect
-    await vi.advanceTimersByTimeAsync(4100);
-    expect(mockWsInstances.length).toBe(instanceCountBefore + 1);
+    // Once the drain runs dry, new events go straight through again
+    await vi.advanceTimersByTimeAsync(500);
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', eventType: 'chat_mention', seq: 4, from: { id: 'u4', name: 'A' }, text: 'hi',
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(opts.onMessage).toHaveBeenCalledTimes(4);
 
     adapter.stop();
   });
 
-  // ── sendReply ──
-
+  it('ignores server replays of events already held for resume', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused' }));
+
+    const event = { type: 'city_event', eventType: 'chat_mention', seq: 4, from: { id: 'u1', name: 'A' }, text: 'hi' };
+    mockWsInstance.emit('message', JSON.stringify(event));
+    mockWsInstance.emit('message', JSON.stringify(event));
+
+    expect(adapter.getPausedBacklogSize()).toBe(1);
+    adapter.stop();
+  });
+
+  it('holds speak and move while paused and sends them on resume', async () => {
+    const adapter = await connectAdapter(makeOpts());
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused' }));
+
+    adapter.sendReply({ type: 'agent_reply', action: 'speak', text: 'hello' });
+    adapter.sendReply({ type: 'agent_reply', action: 'owner_reply', text: 'paused, sorry' });
+    const sentActions = () => mockWsInstance.sentMessages
+      .filter((m) => m.includes('agent_reply'))
+      .map((m) => JSON.parse(m).action);
+
+    expect(sentActions()).toEqual(['owner_reply']);
+    expect(adapter.getHeldReplyCount()).toBe(1);
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'resumed' }));
+    expect(sentActions()).toEqual(['owner_reply', 'speak']);
+
+    adapter.stop();
+  });
+
+  it('rejects speak and move while paused when pausedReplies is reject', async () => {
+    const opts = makeOpts();
+    opts.config.pausedReplies = 'reject';
+    const adapter = await connectAdapter(opts);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused' }));
+
+    await expect(adapter.move({ zoneId: 2 })).rejects.toThrow('bot is paused');
+    expect(adapter.getHeldReplyCount()).toBe(0);
+
+    adapter.stop();
+  });
+
+  // ── Error Handling ──
+
+  it('stops on auth_failed error', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit(
+      'message',
+      JSON.stringify({ type: 'error', reason: 'auth_failed', message: 'Bad token' })
+    );
+
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+    expect(opts.onError).toHaveBeenCalled();
+  });
+
+  it('stops on auth_failed error with a null message', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'error', reason: 'auth_failed', message: null }));
+
+    expect(adapter.getInvalidFrameCount()).toBe(0);
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+    expect(opts.onError).toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(mockWsInstances.length).toBe(1);
+  });
+
+  it('stops on token_expired error', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit(
+      'message',
+      JSON.stringify({ type: 'error', reason: 'token_expired' })
+    );
+
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+  });
+
+  it('refreshes the token and reconnects on token_expired', async () => {
+    const refreshToken = vi.fn().mockResolvedValue('fresh-token');
+    const onTokenRefreshed = vi.fn();
+    const opts = makeOpts({ refreshToken, onTokenRefreshed });
+    const adapter = await connectAdapter(opts);
+    const before = mockWsInstances.length;
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'error', reason: 'token_expired' }));
+    mockWsInstance.emit('close', 1008, Buffer.from('token_expired'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(refreshToken).toHaveBeenCalledWith('test-token-abc');
+    expect(onTokenRefreshed).toHaveBeenCalledWith('fresh-token');
+    // Exactly one reconnect, with the new token
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockWsInstances.length).toBe(before + 1);
+    expect(new URL(mockWsInstance.url).searchParams.get('token')).toBe('fresh-token');
+
+    adapter.stop();
+  });
+
+  it('stops with token_refresh_failed when the refresh fails', async () => {
+    const onFatalError = vi.fn();
+    const opts = makeOpts({
+      refreshToken: vi.fn().mockRejectedValue(new Error('POST /agents/refresh failed: 401 Unauthorized')),
+      onFatalError,
+    });
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'error', reason: 'token_expired' }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+    expect(onFatalError).toHaveBeenCalledWith('token_refresh_failed: POST /agents/refresh failed: 401 Unauthorized');
+  });
+
+  it('stops with token_refresh_failed when refreshed tokens keep being rejected', async () => {
+    const onFatalError = vi.fn();
+    const refreshToken = vi.fn().mockResolvedValue('fresh-token');
+    const opts = makeOpts({ refreshToken, onFatalError });
+    const adapter = await connectAdapter(opts);
+
+    for (let i = 0; i < 4; i++) {
+      mockWsInstance.emit('open');
+      mockWsInstance.emit('message', JSON.stringify({ type: 'error', reason: 'token_expired' }));
+      await vi.advanceTimersByTimeAsync(0);
+    }
+
+    expect(refreshToken).toHaveBeenCalledTimes(3);
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+    expect(onFatalError).toHaveBeenCalledWith('token_refresh_failed: server rejected 3 refreshed tokens in a row');
+  });
+
+  it('rejects connect promise if server sends error before welcome', async () => {
+    const opts = makeOpts();
+    const adapter = new OpenClawCityAdapter(opts);
+
+    const connectPromise = adapter.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    mockWsInstance.emit('open');
+
+    // Server sends auth_failed instead of welcome
+    mockWsInstance.emit(
+      'message',
+      JSON.stringify({ type: 'error', reason: 'auth_failed', message: 'Invalid JWT' })
+    );
+
+    // connect() should reject (not hang forever)
+    await expect(connectPromise).resolves.toBeUndefined();
+    // adapter stops itself on auth_failed
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+  });
+
+  it('respects rate_limited retryAfter', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+    const instanceCountBefore = mockWsInstances.length;
+
+    // Server sends rate_limited with retryAfter: 5 seconds
+    mockWsInstance.emit(
+      'message',
+      JSON.stringify({ type: 'error', reason: 'rate_limited', retryAfter: 5 })
+    );
+
+    // Should NOT reconnect immediately
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockWsInstances.length).toBe(instanceCountBefore);
+
+    // After retryAfter (5s), should reconnect
+    await vi.advanceTimersByTimeAsync(4100);
+    expect(mockWsInstances.length).toBe(instanceCountBefore + 1);
+
+    adapter.stop();
+  });
+
+  // ── sendReply ──
+
   it('sendReply does nothing when disconnected', () => {
     const opts = makeOpts();
     const adapter = new OpenClawCityAdapter(opts);
@@ -389,10 +944,298 @@ describe('OpenClawCityAdapter', () => {
         type: 'agent_reply',
         action: 'dm_reply',
         text: 'hello',
+        conversationId: 'conv-1',
       });
     }).not.toThrow();
   });
 
+  // ── sendReplyAndWait ──
+
+  it('sends replies with the server field names', async () => {
+    const adapter = await connectAdapter(makeOpts());
+    mockWsInstance.sentMessages = [];
+
+    adapter.sendReply({ type: 'agent_reply', action: 'dm_reply', text: 'hey', conversationId: 'conv-1' });
+    const { requestId, ...sent } = JSON.parse(mockWsInstance.sentMessages[0]);
+    expect(sent).toEqual({ type: 'agent_reply', action: 'dm_reply', message: 'hey', conversation_id: 'conv-1' });
+    expect(typeof requestId).toBe('string');
+    adapter.stop();
+  });
+
+  it('resolves sendReplyAndWait with the matching action_result', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+    mockWsInstance.sentMessages = [];
+
+    const p = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'hi' });
+    const sent = JSON.parse(mockWsInstance.sentMessages[0]);
+    expect(sent.action).toBe('speak');
+    expect(typeof sent.requestId).toBe('string');
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'action_result',
+      requestId: sent.requestId,
+      success: true,
+      data: { said: true },
+    }));
+
+    await expect(p).resolves.toMatchObject({ success: true, data: { said: true } });
+    adapter.stop();
+  });
+
+  it('resolves sendReplyAndWait on an action_result with a null error', async () => {
+    const adapter = await connectAdapter(makeOpts());
+    mockWsInstance.sentMessages = [];
+
+    const p = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'hi' });
+    const { requestId } = JSON.parse(mockWsInstance.sentMessages[0]);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'action_result', requestId, success: true, error: null, data: null }));
+
+    await expect(p).resolves.toMatchObject({ success: true });
+    expect(adapter.getInvalidFrameCount()).toBe(0);
+    adapter.stop();
+  });
+
+  it('reports confirmed actions through onActionSucceeded', async () => {
+    const onActionSucceeded = vi.fn();
+    const adapter = await connectAdapter(makeOpts({ onActionSucceeded }));
+    mockWsInstance.sentMessages = [];
+
+    const p = adapter.move({ zoneId: 4 });
+    const { requestId } = JSON.parse(mockWsInstance.sentMessages[0]);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'action_result', requestId, success: true }));
+    await p;
+
+    expect(onActionSucceeded).toHaveBeenCalledWith(
+      'move',
+      expect.objectContaining({ success: true }),
+      expect.objectContaining({ action: 'move', zoneId: 4 }),
+    );
+    adapter.stop();
+  });
+
+  it('rejects sendReplyAndWait with ActionFailedError on server failure', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+    mockWsInstance.sentMessages = [];
+
+    const p = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'move', zoneId: 9 });
+    const { requestId } = JSON.parse(mockWsInstance.sentMessages[0]);
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'action_result',
+      requestId,
+      success: false,
+      error: 'zone_locked',
+    }));
+
+    const err = await p.catch((e) => e);
+    expect(err).toBeInstanceOf(ActionFailedError);
+    expect(err.action).toBe('move');
+    expect(err.result.error).toBe('zone_locked');
+    adapter.stop();
+  });
+
+  it('matches results without requestId in send order', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+
+    // A fire-and-forget reply still occupies its slot in the FIFO
+    adapter.sendReply({ type: 'agent_reply', action: 'speak', text: 'first' });
+    const p = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'second' });
+    let settled = false;
+    void p.then(() => { settled = true; });
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'action_result', success: true, data: { n: 1 } }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled).toBe(false);
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'action_result', success: true, data: { n: 2 } }));
+    await expect(p).resolves.toMatchObject({ data: { n: 2 } });
+    adapter.stop();
+  });
+
+  it('rejects sendReplyAndWait on timeout', async () => {
+    const opts = makeOpts();
+    opts.config.actionTimeoutMs = 1000;
+    const adapter = await connectAdapter(opts);
+
+    const p = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'hello?' });
+    const assertion = expect(p).rejects.toThrow(/Timed out after 1000ms/);
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    adapter.stop();
+  });
+
+  it('stops tracking an unanswered sendReply after the action timeout', async () => {
+    const opts = makeOpts();
+    opts.config.actionTimeoutMs = 1000;
+    const adapter = await connectAdapter(opts);
+
+    adapter.sendReply({ type: 'agent_reply', action: 'speak', text: 'anyone?' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(opts.logger.warn).toHaveBeenCalledWith(expect.stringContaining('No result for speak after 1000ms'));
+
+    // The timed-out reply no longer holds the head of the FIFO
+    const p = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'hello?' });
+    mockWsInstance.emit('message', JSON.stringify({ type: 'action_result', success: true, data: { n: 2 } }));
+    await expect(p).resolves.toMatchObject({ data: { n: 2 } });
+    adapter.stop();
+  });
+
+  it('rejects pending sendReplyAndWait when the socket closes', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+
+    const p = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'bye' });
+    const assertion = expect(p).rejects.toThrow(/connection closed/);
+    mockWsInstance.emit('close', 1006, Buffer.from(''));
+    await assertion;
+    adapter.stop();
+  });
+
+  it('rejects sendReplyAndWait once the adapter is stopped', async () => {
+    const adapter = new OpenClawCityAdapter(makeOpts());
+    adapter.stop();
+    await expect(
+      adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'x' }),
+    ).rejects.toThrow(/adapter stopped/);
+  });
+
+  // ── City Actions ──
+
+  it('sends validated city actions and resolves with the result', async () => {
+    const adapter = await connectAdapter(makeOpts());
+    mockWsInstance.sentMessages = [];
+
+    const p = adapter.enterBuilding({ buildingId: 'cafe-1' });
+    await vi.advanceTimersByTimeAsync(0);
+    const sent = JSON.parse(mockWsInstance.sentMessages[0]);
+    expect(sent).toMatchObject({ type: 'agent_reply', action: 'enter_building', buildingId: 'cafe-1' });
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'action_result', requestId: sent.requestId, success: true }));
+    await expect(p).resolves.toMatchObject({ success: true });
+
+    adapter.stop();
+  });
+
+  it('rejects invalid city action params without sending', async () => {
+    const adapter = await connectAdapter(makeOpts());
+    mockWsInstance.sentMessages = [];
+
+    await expect(adapter.move({ zoneId: 'nine' } as any)).rejects.toThrow(/must be an integer/);
+    expect(mockWsInstance.sentMessages).toEqual([]);
+
+    adapter.stop();
+  });
+
+  // ── Outbound Queue ──
+
+  it('queues replies while reconnecting and flushes them in order after welcome', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('close', 1006, Buffer.from(''));
+    adapter.sendReply({ type: 'agent_reply', action: 'speak', text: 'one' });
+    const waited = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'two' });
+    expect(adapter.getOutboundQueueSize()).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    mockWsInstance.emit('open');
+    expect(mockWsInstance.sentMessages).toEqual([]);
+
+    mockWsInstance.emit('message', JSON.stringify(WELCOME));
+    const sent = mockWsInstance.sentMessages
+      .filter((m) => m !== 'ping')
+      .map((m) => JSON.parse(m));
+    expect(sent.map((f) => f.text)).toEqual(['one', 'two']);
+    expect(adapter.getOutboundQueueSize()).toBe(0);
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'action_result', requestId: sent[1].requestId, success: true }));
+    await expect(waited).resolves.toMatchObject({ success: true });
+
+    adapter.stop();
+  });
+
+  it('drops expired queued replies and counts them', async () => {
+    const onOutboundDrop = vi.fn();
+    const opts = makeOpts({ onOutboundDrop });
+    opts.config.outboundQueueTtlMs = 100;
+    opts.config.reconnectBaseMs = 1000;
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('close', 1006, Buffer.from(''));
+    const waited = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'stale' });
+    const assertion = expect(waited).rejects.toThrow(/dropped from outbound queue \(expired\)/);
+
+    await vi.advanceTimersByTimeAsync(1500);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify(WELCOME));
+
+    await assertion;
+    expect(adapter.getDroppedFrameCount()).toBe(1);
+    expect(onOutboundDrop).toHaveBeenCalledWith(expect.objectContaining({ text: 'stale' }), 'expired', 1);
+    expect(mockWsInstance.sentMessages.some((m) => m.includes('stale'))).toBe(false);
+
+    adapter.stop();
+  });
+
+  it('expires queued replies on time, even while the socket stays down', async () => {
+    const onOutboundDrop = vi.fn();
+    const opts = makeOpts({ onOutboundDrop });
+    opts.config.outboundQueueTtlMs = 100;
+    const adapter = new OpenClawCityAdapter(opts);
+
+    const waited = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'stale' });
+    const assertion = expect(waited).rejects.toThrow(/dropped from outbound queue \(expired\)/);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(onOutboundDrop).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await assertion;
+    expect(adapter.getOutboundQueueSize()).toBe(0);
+    expect(onOutboundDrop).toHaveBeenCalledWith(expect.objectContaining({ text: 'stale' }), 'expired', 1);
+    adapter.stop();
+  });
+
+  it('expires held replies while the bot stays paused', async () => {
+    const onOutboundDrop = vi.fn();
+    const opts = makeOpts({ onOutboundDrop });
+    opts.config.outboundQueueTtlMs = 100;
+    const adapter = await connectAdapter(opts);
+    mockWsInstance.emit('message', JSON.stringify({ type: 'paused' }));
+
+    const waited = adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'later' }, { queueTtlMs: 50 });
+    const assertion = expect(waited).rejects.toThrow(/dropped while paused \(expired\)/);
+    await vi.advanceTimersByTimeAsync(50);
+
+    await assertion;
+    expect(adapter.getHeldReplyCount()).toBe(0);
+    expect(adapter.getDroppedFrameCount()).toBe(1);
+    expect(onOutboundDrop).toHaveBeenCalledWith(expect.objectContaining({ text: 'later' }), 'expired', 1);
+    adapter.stop();
+  });
+
+  it('applies the overflow policy when the queue is full', async () => {
+    const dropOldest = makeOpts();
+    dropOldest.config.outboundQueueSize = 1;
+    const a = new OpenClawCityAdapter(dropOldest);
+    const first = a.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'first' });
+    a.sendReply({ type: 'agent_reply', action: 'speak', text: 'second' });
+    await expect(first).rejects.toThrow(/overflow/);
+    expect(a.getDroppedFrameCount()).toBe(1);
+    expect(a.getOutboundQueueSize()).toBe(1);
+
+    const reject = makeOpts();
+    reject.config.outboundQueueSize = 1;
+    reject.config.outboundQueueOverflow = 'reject';
+    const b = new OpenClawCityAdapter(reject);
+    b.sendReply({ type: 'agent_reply', action: 'speak', text: 'first' });
+    await expect(
+      b.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'second' }),
+    ).rejects.toThrow(/queue full/);
+    expect(b.getDroppedFrameCount()).toBe(1);
+  });
+
   // ── Pending Events ──
 
   it('dispatches pending events from welcome sequentially', async () => {
@@ -428,6 +1271,419 @@ describe('OpenClawCityAdapter', () => {
     adapter.stop();
   });
 
+  // ── Event Rules ──
+
+  it('acks events dropped by an event rule without dispatching them', async () => {
+    const opts = makeOpts();
+    opts.config.eventRules = [{ match: { eventType: 'artifact_reaction' }, action: 'drop' }];
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 5, eventType: 'artifact_reaction', from: { id: 'u1', name: 'A' }, metadata: {},
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).not.toHaveBeenCalled();
+    expect(mockWsInstance.sentMessages).toContain(JSON.stringify({ type: 'ack', seq: 5 }));
+    expect(adapter.getLastAckSeq()).toBe(5);
+    adapter.stop();
+  });
+
+  it('attaches the route override of a matching route rule to the envelope', async () => {
+    const opts = makeOpts();
+    opts.config.eventRules = [
+      { match: { eventType: 'chat_mention' }, action: 'route', route: { agentId: 'mayor', peerId: 'zone:{zoneId}', chatType: 'group' } },
+    ];
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 6, eventType: 'chat_mention', from: { id: 'u1', name: 'A' }, metadata: { zoneId: 2 },
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    const envelope = (opts.onMessage as any).mock.calls[0][0];
+    expect(envelope.route).toEqual({ agentId: 'mayor', peerId: 'zone:2', chatType: 'group' });
+    adapter.stop();
+  });
+
+  // ── Digest ──
+
+  function emitEvent(seq: number, eventType: string) {
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq, eventType, from: { id: `u${seq}`, name: `Bot${seq}` }, text: `e${seq}`, metadata: { zoneId: 1 },
+    }));
+  }
+
+  it('batches digest event types into one turn and acks them after it', async () => {
+    const opts = makeOpts();
+    opts.config.digestEventTypes = ['chat_mention', 'building_activity'];
+    opts.config.digestWindowMs = 1000;
+    const adapter = await connectAdapter(opts);
+
+    emitEvent(1, 'chat_mention');
+    emitEvent(2, 'building_activity');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(opts.onMessage).not.toHaveBeenCalled();
+    expect(adapter.getDigestSize()).toBe(2);
+    expect(mockWsInstance.sentMessages).not.toContain(JSON.stringify({ type: 'ack', seq: 1 }));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    const envelope = (opts.onMessage as any).mock.calls[0][0];
+    expect(envelope.metadata).toMatchObject({ eventType: 'digest', digestSeqs: [1, 2] });
+    expect(envelope.content.text).toContain('Bot1: e1');
+    expect(envelope.content.text).toContain('Bot2: e2');
+    expect(mockWsInstance.sentMessages).toContain(JSON.stringify({ type: 'ack', seq: 1 }));
+    expect(mockWsInstance.sentMessages).toContain(JSON.stringify({ type: 'ack', seq: 2 }));
+    expect(adapter.getLastAckSeq()).toBe(2);
+    adapter.stop();
+  });
+
+  it('never digests DMs and owner messages', async () => {
+    const opts = makeOpts();
+    opts.config.digestEventTypes = ['dm_message', 'owner_message'];
+    opts.config.eventRules = [{ action: 'digest' }];
+    const adapter = await connectAdapter(opts);
+
+    emitEvent(1, 'dm_message');
+    emitEvent(2, 'owner_message');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(2);
+    expect(adapter.getDigestSize()).toBe(0);
+    adapter.stop();
+  });
+
+  it('digests events selected by a digest rule', async () => {
+    const opts = makeOpts();
+    opts.config.eventRules = [{ match: { zoneId: 1 }, action: 'digest' }];
+    opts.config.digestMaxEvents = 2;
+    const adapter = await connectAdapter(opts);
+
+    emitEvent(1, 'artifact_reaction');
+    emitEvent(2, 'chat_mention');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    expect((opts.onMessage as any).mock.calls[0][0].metadata.eventType).toBe('digest');
+    adapter.stop();
+  });
+
+  it('leaves digested events un-acked when the digest turn fails with replay policy', async () => {
+    const opts = makeOpts({ onMessage: vi.fn().mockRejectedValue(new Error('boom')) });
+    opts.config.digestEventTypes = ['chat_mention'];
+    opts.config.digestWindowMs = 100;
+    opts.config.dispatchRetries = 0;
+    opts.config.dispatchFailurePolicy = 'replay';
+    const adapter = await connectAdapter(opts);
+
+    emitEvent(1, 'chat_mention');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    expect(mockWsInstance.sentMessages).not.toContain(JSON.stringify({ type: 'ack', seq: 1 }));
+    expect(adapter.getLastAckSeq()).toBe(0);
+    adapter.stop();
+  });
+
+  // ── Event Templates ──
+
+  it('formats events and digest lines with the account templates', async () => {
+    const opts = makeOpts();
+    opts.config.templateLocale = 'de';
+    opts.config.eventTemplates = { building_activity: '<{metadata.zoneId}> {name} — {text}' };
+    opts.config.digestEventTypes = ['building_activity'];
+    opts.config.digestMaxEvents = 1;
+    const adapter = await connectAdapter(opts);
+
+    emitEvent(1, 'dm_message');
+    emitEvent(2, 'building_activity');
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [dm, digest] = (opts.onMessage as any).mock.calls.map((call: any[]) => call[0].content.text);
+    expect(dm).toBe('[DM von Bot1] e1');
+    expect(digest).toMatch(/^\[Stadt-Zusammenfassung\] 1 city event\(s\)/);
+    expect(digest).toContain('<1> Bot2 — e2');
+    adapter.stop();
+  });
+
+  it('refuses to start with an invalid template', () => {
+    const opts = makeOpts();
+    opts.config.eventTemplates = { dm_message: '[DM from {sender}] {text}' };
+    expect(() => new OpenClawCityAdapter(opts)).toThrow('unknown field "sender"');
+  });
+
+  // ── Unknown Types ──
+
+  it('dispatches unknown event types with their metadata and reports them', async () => {
+    const opts = makeOpts();
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 1, eventType: 'zone_party', from: { id: 'u1', name: 'Alice' }, text: 'come!', metadata: { zoneId: 2, theme: 'disco' },
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect((opts.onMessage as any).mock.calls[0][0].content.text).toBe('[zone_party] Alice: come! (zoneId: 2, theme: disco)');
+    expect(mockWsInstance.sentMessages).toContain(JSON.stringify({ type: 'ack', seq: 1 }));
+    expect(adapter.getCompatibilityReport().unknownEventTypes).toEqual([
+      expect.objectContaining({ type: 'zone_party', count: 1 }),
+    ]);
+    adapter.stop();
+  });
+
+  it('formats event types with a registered handler or a config template as understood', async () => {
+    const eventHandlers = new EventHandlerRegistry();
+    eventHandlers.register('zone_party', { format: (event) => `[Party in zone ${event.metadata.zoneId}] ${event.text}` });
+    const opts = makeOpts({ eventHandlers });
+    opts.config.eventTemplates = { weather: '[Weather] {metadata.sky}' };
+    const adapter = await connectAdapter(opts);
+
+    emitEvent(1, 'zone_party');
+    mockWsInstance.emit('message', JSON.stringify({
+      type: 'city_event', seq: 2, eventType: 'weather', from: { id: 'city', name: 'City' }, metadata: { sky: 'rain' },
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    const texts = (opts.onMessage as any).mock.calls.map((call: any[]) => call[0].content.text);
+    expect(texts).toEqual(['[Party in zone 1] e1', '[Weather] rain']);
+    expect(adapter.getCompatibilityReport().unknownEventTypes).toEqual([]);
+    adapter.stop();
+  });
+
+  it('passes unknown frames to onUnknownFrame and reports them', async () => {
+    const onUnknownFrame = vi.fn();
+    const opts = makeOpts({ onUnknownFrame });
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'weather_update', sky: 'rain' }));
+    mockWsInstance.emit('message', JSON.stringify({ type: 'weather_update', sky: 'sun' }));
+
+    expect(onUnknownFrame).toHaveBeenCalledWith({ type: 'weather_update', sky: 'rain' });
+    expect(adapter.getCompatibilityReport()).toMatchObject({
+      protocolVersion: 1,
+      unknownFrameTypes: [expect.objectContaining({ type: 'weather_update', count: 2 })],
+    });
+    adapter.stop();
+  });
+
+  // ── Frame Validation ──
+
+  it('rejects invalid city_event frames without acking or dispatching them', async () => {
+    const onInvalidFrame = vi.fn();
+    const opts = makeOpts({ onInvalidFrame });
+    const adapter = await connectAdapter(opts);
+
+    mockWsInstance.emit('message', JSON.stringify({ type: 'city_event', eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {} }));
+    mockWsInstance.emit('message', JSON.stringify({ type: 'city_event', seq: 'abc', eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {} }));
+    mockWsInstance.emit('message', '{not json');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).not.toHaveBeenCalled();
+    expect(mockWsInstance.sentMessages.filter((m: string) => m.includes('"ack"'))).toEqual([]);
+    expect(adapter.getLastAckSeq()).toBe(0);
+    expect(adapter.getInvalidFrameCount()).toBe(3);
+    expect(onInvalidFrame).toHaveBeenNthCalledWith(2, expect.objectContaining({ type: 'city_event', seq: 'abc' }), 2);
+    expect(onInvalidFrame).toHaveBeenLastCalledWith({ issues: ['not valid JSON'] }, 3);
+    expect(opts.logger!.warn).toHaveBeenCalledWith(expect.stringMatching(/^\[OCC\] Rejected invalid city_event frame seq=abc: seq: .* \(2 rejected so far\)/));
+
+    // The cursor still advances normally afterwards
+    mockWsInstance.emit('message', JSON.stringify({ type: 'city_event', seq: '1', eventType: 'dm_message', from: { id: 'u1', name: 'A' }, metadata: {} }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockWsInstance.sentMessages).toContain(JSON.stringify({ type: 'ack', seq: 1 }));
+    expect(adapter.getLastAckSeq()).toBe(1);
+    adapter.stop();
+  });
+
+  it('skips invalid legacy pending events in the welcome', async () => {
+    const opts = makeOpts();
+    const adapter = await connectWithWelcome(opts, {
+      ...WELCOME,
+      pending: [
+        { seq: 'x', eventType: 'dm_message' },
+        { seq: 2, eventType: 'dm_message', from: { id: 'u2', name: 'B' }, text: 'hi', metadata: {} },
+      ],
+    } as any);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    expect(adapter.getInvalidFrameCount()).toBe(1);
+    adapter.stop();
+  });
+
+  it('connects on a welcome with snake_case location fields and unnamed nearby bots', async () => {
+    const opts = makeOpts();
+    const adapter = await connectWithWelcome(opts, {
+      type: 'welcome',
+      version: 1,
+      location: { zone_id: 3, zone_name: 'Plaza' },
+      nearby_bots: [{ id: 'b1' }, { name: 'no id' }],
+    } as any);
+
+    expect(adapter.getState()).toBe(ConnectionState.CONNECTED);
+    expect(adapter.getInvalidFrameCount()).toBe(0);
+    expect(opts.onWelcome).toHaveBeenCalledWith(expect.objectContaining({ nearby_bots: [{ id: 'b1', name: 'Unknown' }] }));
+    adapter.stop();
+  });
+
+  it('drops the socket and reconnects when the welcome is rejected', async () => {
+    const opts = makeOpts();
+    const adapter = new OpenClawCityAdapter(opts);
+    const p = adapter.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify({ ...WELCOME, version: '1' }));
+    await p;
+
+    expect(adapter.getInvalidFrameCount()).toBe(1);
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+    expect(mockWsInstance.readyState).toBe(MockWebSocket.CLOSED);
+
+    // The usual backoff applies
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockWsInstances.length).toBe(2);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify(WELCOME));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(adapter.getState()).toBe(ConnectionState.CONNECTED);
+    adapter.stop();
+  });
+
+  // ── Pending Items ──
+
+  const PENDING_ITEMS = {
+    unread_dms: [{ conversation_id: 'c1', from: { id: 'u1', name: 'A' }, last_message: 'hi' }],
+    proposals: [{ proposal_id: 'p1', from: { id: 'u2', name: 'B' }, message: 'trade?' }],
+  };
+
+  async function connectWithWelcome(opts: AdapterOptions, welcome: WelcomeFrame) {
+    const adapter = new OpenClawCityAdapter(opts);
+    const p = adapter.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify(welcome));
+    await p;
+    await vi.advanceTimersByTimeAsync(0);
+    return adapter;
+  }
+
+  it('dispatches welcome pending_items as one catch-up turn by default', async () => {
+    const opts = makeOpts();
+    const adapter = await connectWithWelcome(opts, { ...WELCOME, pending_items: PENDING_ITEMS });
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    const envelope = (opts.onMessage as any).mock.calls[0][0];
+    expect(envelope.metadata.eventType).toBe('pending_summary');
+    expect(envelope.metadata.synthetic).toBe(true);
+    // Synthetic events are never acked
+    expect(mockWsInstance.sentMessages.filter((m) => m.includes('"ack"'))).toEqual([]);
+
+    adapter.stop();
+  });
+
+  it('dispatches one synthetic event per item in events mode', async () => {
+    const opts = makeOpts();
+    opts.config.pendingItems = 'events';
+    const adapter = await connectWithWelcome(opts, { ...WELCOME, pending_items: PENDING_ITEMS });
+
+    const types = (opts.onMessage as any).mock.calls.map((c: any[]) => c[0].metadata.eventType);
+    expect(types).toEqual(['dm_message', 'proposal_received']);
+    expect(adapter.getLastAckSeq()).toBe(0);
+
+    adapter.stop();
+  });
+
+  it('does not hand the same pending items to the agent again after a reconnect', async () => {
+    const opts = makeOpts();
+    const adapter = await connectWithWelcome(opts, { ...WELCOME, pending_items: PENDING_ITEMS });
+
+    mockWsInstance.emit('close', 1006, Buffer.from(''));
+    await vi.advanceTimersByTimeAsync(1000);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify({ ...WELCOME, pending_items: PENDING_ITEMS }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    adapter.stop();
+  });
+
+  it('forgets pending items the server no longer lists', async () => {
+    const opts = makeOpts();
+    opts.config.pendingItems = 'events';
+    const adapter = await connectWithWelcome(opts, { ...WELCOME, pending_items: PENDING_ITEMS });
+    expect(opts.onMessage).toHaveBeenCalledTimes(2);
+
+    const reconnect = async (pendingItems: object) => {
+      mockWsInstance.emit('close', 1006, Buffer.from(''));
+      await vi.advanceTimersByTimeAsync(1000);
+      mockWsInstance.emit('open');
+      mockWsInstance.emit('message', JSON.stringify({ ...WELCOME, pending_items: pendingItems }));
+      await vi.advanceTimersByTimeAsync(0);
+    };
+
+    // The DM was read elsewhere; a later unread in the same conversation is new
+    await reconnect({ proposals: PENDING_ITEMS.proposals });
+    expect(opts.onMessage).toHaveBeenCalledTimes(2);
+    await reconnect(PENDING_ITEMS);
+
+    const types = (opts.onMessage as any).mock.calls.map((c: any[]) => c[0].metadata.eventType);
+    expect(types).toEqual(['dm_message', 'proposal_received', 'dm_message']);
+    adapter.stop();
+  });
+
+  // ── Welcome Turn ──
+
+  it('does not dispatch a welcome turn by default', async () => {
+    const opts = makeOpts();
+    const adapter = await connectWithWelcome(opts, WELCOME);
+    expect(opts.onMessage).not.toHaveBeenCalled();
+    adapter.stop();
+  });
+
+  it('dispatches a welcome turn on first connect only when welcomeTurn is first', async () => {
+    const opts = makeOpts();
+    opts.config.welcomeTurn = 'first';
+    const adapter = await connectWithWelcome(opts, WELCOME);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    const envelope = (opts.onMessage as any).mock.calls[0][0];
+    expect(envelope.metadata.eventType).toBe('welcome');
+    expect(envelope.content.text).toContain("You're in Downtown");
+
+    mockWsInstance.emit('close', 1006, Buffer.from(''));
+    await vi.advanceTimersByTimeAsync(1000);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify(WELCOME));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(1);
+    adapter.stop();
+  });
+
+  it('dispatches a welcome turn on every reconnect when welcomeTurn is always', async () => {
+    const opts = makeOpts();
+    opts.config.welcomeTurn = 'always';
+    const adapter = await connectWithWelcome(opts, WELCOME);
+
+    mockWsInstance.emit('close', 1006, Buffer.from(''));
+    await vi.advanceTimersByTimeAsync(1000);
+    mockWsInstance.emit('open');
+    mockWsInstance.emit('message', JSON.stringify(WELCOME));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(opts.onMessage).toHaveBeenCalledTimes(2);
+    adapter.stop();
+  });
+
+  it('ignores pending_items when pendingItems is off', async () => {
+    const opts = makeOpts();
+    opts.config.pendingItems = 'off';
+    const adapter = await connectWithWelcome(opts, { ...WELCOME, pending_items: PENDING_ITEMS });
+
+    expect(opts.onMessage).not.toHaveBeenCalled();
+    adapter.stop();
+  });
+
   // ── AbortSignal ──
 
   it('stops when AbortSignal fires', async () => {
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { CityContextTracker, parseHeartbeat, renderCityContext, renderCityContextBlock } from '../src/city-context.js';
+
+const JSON_HEARTBEAT = JSON.stringify({
+  location: { zone_id: 2, zone_name: 'Harbor', building_name: 'Library' },
+  nearby_bots: [{ id: 'b1', name: 'Alice' }, { id: 'b2', name: 'Bob' }],
+  needs: { energy: 40, social: 75 },
+  goals: [{ title: 'Finish the mural', progress: '60%' }, 'Meet Carol'],
+});
+
+const MARKDOWN_HEARTBEAT = `# Heartbeat
+
+## Location
+Downtown Plaza
+
+## Needs
+- energy 40
+
+## Goals
+- Finish the mural
+
+## Nearby bots
+- Alice
+- Bob
+`;
+
+describe('parseHeartbeat', () => {
+  it('parses the JSON form', () => {
+    expect(parseHeartbeat(JSON_HEARTBEAT)).toEqual({
+      location: { zoneId: 2, zoneName: 'Harbor', buildingName: 'Library' },
+      nearby: ['Alice', 'Bob'],
+      needs: ['energy 40', 'social 75'],
+      goals: ['Finish the mural 60%', 'Meet Carol'],
+    });
+  });
+
+  it('parses the markdown form', () => {
+    expect(parseHeartbeat(MARKDOWN_HEARTBEAT)).toEqual({
+      location: { zoneName: 'Downtown Plaza' },
+      nearby: ['Alice', 'Bob'],
+      needs: ['energy 40'],
+      goals: ['Finish the mural'],
+    });
+  });
+
+  it('returns an empty context for unrecognized text', () => {
+    expect(parseHeartbeat('nothing useful here')).toEqual({ nearby: [], needs: [], goals: [] });
+  });
+});
+
+describe('renderCityContext', () => {
+  it('renders fields in priority order under a header', () => {
+    const text = renderCityContext(parseHeartbeat(JSON_HEARTBEAT), 300)!;
+    expect(text.split('\n').slice(1)).toEqual([
+      'Location: Harbor (zone 2), inside Library',
+      'Needs: energy 40, social 75',
+      'Goals: Finish the mural 60%, Meet Carol',
+      'Nearby: Alice, Bob',
+    ]);
+  });
+
+  it('stays within the token budget', () => {
+    const ctx = parseHeartbeat(JSON_HEARTBEAT);
+    ctx.nearby = Array.from({ length: 200 }, (_, i) => `Bot${i}`);
+    const text = renderCityContext(ctx, 50)!;
+    expect(text.length).toBeLessThanOrEqual(200);
+    expect(text).toContain('Location: Harbor');
+  });
+
+  it('returns null when there is nothing to render', () => {
+    expect(renderCityContext({ nearby: [], needs: [], goals: [] }, 300)).toBeNull();
+  });
+
+  it('lists only the fields that fit the budget', () => {
+    const block = renderCityContextBlock(parseHeartbeat(JSON_HEARTBEAT), 36)!;
+    expect(block.fields).toEqual(['location', 'needs']);
+    expect(block.text).not.toContain('Goals:');
+  });
+});
+
+describe('CityContextTracker', () => {
+  const FIELDS = ['location', 'needs', 'goals', 'nearby'] as const;
+
+  it('returns every field on the first turn of a session', () => {
+    const tracker = new CityContextTracker();
+    const changed = tracker.changedFields('s1', parseHeartbeat(JSON_HEARTBEAT));
+    expect(Object.keys(changed!)).toEqual(['location', 'needs', 'goals', 'nearby']);
+  });
+
+  it('returns only fields that changed since the session was last shown them', () => {
+    const tracker = new CityContextTracker();
+    const ctx = parseHeartbeat(JSON_HEARTBEAT);
+    tracker.markShown('s1', ctx, FIELDS);
+
+    expect(tracker.changedFields('s1', ctx)).toBeNull();
+    expect(tracker.changedFields('s1', { ...ctx, needs: ['energy 10'] })).toEqual({ needs: ['energy 10'] });
+  });
+
+  it('keeps offering fields until they are marked shown', () => {
+    const tracker = new CityContextTracker();
+    const ctx = parseHeartbeat(JSON_HEARTBEAT);
+    tracker.changedFields('s1', ctx);
+    expect(Object.keys(tracker.changedFields('s1', ctx)!)).toHaveLength(4);
+
+    // Only what fit in the rendered block counts as seen
+    tracker.markShown('s1', ctx, ['location', 'needs']);
+    expect(Object.keys(tracker.changedFields('s1', ctx)!)).toEqual(['goals', 'nearby']);
+  });
+
+  it('shows a field again when it disappears and comes back', () => {
+    const tracker = new CityContextTracker();
+    const ctx = parseHeartbeat(JSON_HEARTBEAT);
+    tracker.markShown('s1', ctx, FIELDS);
+    tracker.markShown('s1', { ...ctx, location: undefined }, []);
+    expect(tracker.changedFields('s1', ctx)).toEqual({ location: ctx.location });
+  });
+
+  it('tracks sessions independently', () => {
+    const tracker = new CityContextTracker();
+    const ctx = parseHeartbeat(JSON_HEARTBEAT);
+    tracker.markShown('s1', ctx, FIELDS);
+    expect(tracker.changedFields('s2', ctx)).not.toBeNull();
+  });
+});
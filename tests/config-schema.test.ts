@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildConfigJsonSchema, resolveAccountConfig } from '../src/config-schema.js';
+import { CONFIG_JSON_SCHEMA } from '../src/config-schema.generated.js';
+
+describe('generated JSON schema', () => {
+  it('matches the zod schema (run `npm run generate:config-schema` if this fails)', () => {
+    expect(CONFIG_JSON_SCHEMA).toEqual(buildConfigJsonSchema());
+  });
+
+  it('advertises the same defaults the adapter uses', () => {
+    const properties = CONFIG_JSON_SCHEMA.properties as Record<string, { default?: unknown }>;
+    expect(properties.pingIntervalMs.default).toBe(15000);
+    expect(CONFIG_JSON_SCHEMA.required).toEqual(['apiKey', 'botId']);
+  });
+});
+
+describe('resolveAccountConfig', () => {
+  it('fills in defaults for a valid account', () => {
+    const account = resolveAccountConfig('main', { apiKey: 'jwt', botId: 'bot-1' });
+    expect(account).toMatchObject({
+      accountId: 'main',
+      apiKey: 'jwt',
+      gatewayUrl: 'wss://api.openbotcity.com/agent-channel',
+      pingIntervalMs: 15000,
+      enabled: true,
+    });
+    expect(account.configErrors).toBeUndefined();
+  });
+
+  it('drops keys the schema does not know', () => {
+    const account = resolveAccountConfig('main', { apiKey: 'jwt', botId: 'bot-1', accountId: 'other', configErrors: ['x'] });
+    expect(account.accountId).toBe('main');
+    expect(account.configErrors).toBeUndefined();
+  });
+
+  it('reports every problem with the account', () => {
+    const account = resolveAccountConfig('main', { botId: '', gatewayUrl: 'https://api.openbotcity.com', pingIntervalMs: 'fast' });
+    expect(account.configErrors).toEqual([
+      'gatewayUrl: expected a ws:// or wss:// URL',
+      'apiKey: required',
+      'botId: required',
+      'pingIntervalMs: Invalid input: expected number, received string',
+    ]);
+    expect(account).toMatchObject({ accountId: 'main', gatewayUrl: 'https://api.openbotcity.com' });
+  });
+
+  it.each(['not a url', 'wss//missing-colon', 'ftp://example.com'])('rejects gatewayUrl %j', (gatewayUrl) => {
+    expect(resolveAccountConfig('main', { apiKey: 'k', botId: 'b', gatewayUrl }).configErrors).toEqual([
+      'gatewayUrl: expected a ws:// or wss:// URL',
+    ]);
+  });
+
+  it('rejects out-of-range numbers', () => {
+    const account = resolveAccountConfig('main', {
+      apiKey: 'k',
+      botId: 'b',
+      maxConcurrentDispatches: 0,
+      outboundQueueSize: -1,
+      dispatchRetries: 1.5,
+    });
+    expect(account.configErrors).toEqual([
+      expect.stringMatching(/^outboundQueueSize: /),
+      expect.stringMatching(/^dispatchRetries: /),
+      expect.stringMatching(/^maxConcurrentDispatches: /),
+    ]);
+  });
+
+  it('accepts zero where it turns a feature off', () => {
+    const account = resolveAccountConfig('main', { apiKey: 'k', botId: 'b', outboundQueueSize: 0, cityContextMaxTokens: 0, dispatchRetries: 0 });
+    expect(account.configErrors).toBeUndefined();
+  });
+
+  it('treats a missing account as invalid', () => {
+    expect(resolveAccountConfig('main', undefined).configErrors).toEqual(['apiKey: required', 'botId: required']);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { FileCursorStore, resolveCursorPath } from '../src/cursor-store.js';
+
+describe('FileCursorStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'occ-cursor-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('resolves a per-account path under the state dir', () => {
+    expect(resolveCursorPath('/state', 'default')).toBe(join('/state', 'openclawcity', 'cursors', 'default.json'));
+    expect(resolveCursorPath('/state', 'a/b')).toBe(join('/state', 'openclawcity', 'cursors', 'a%2Fb.json'));
+  });
+
+  it('returns null when no cursor was stored', async () => {
+    const store = new FileCursorStore({ filePath: join(dir, 'missing.json') });
+    expect(await store.load()).toBeNull();
+  });
+
+  it('round-trips a saved cursor after flush', async () => {
+    const filePath = resolveCursorPath(dir, 'default');
+    const store = new FileCursorStore({ filePath, flushIntervalMs: 60_000 });
+
+    store.save(10);
+    store.save(42);
+    await store.flush();
+
+    const reloaded = new FileCursorStore({ filePath });
+    expect(await reloaded.load()).toBe(42);
+  });
+
+  it('throttles writes until the flush interval elapses', async () => {
+    const filePath = join(dir, 'cursor.json');
+    const store = new FileCursorStore({ filePath, flushIntervalMs: 20 });
+
+    store.save(5);
+    // Nothing written synchronously
+    expect(await store.load()).toBeNull();
+
+    await new Promise((r) => setTimeout(r, 60));
+    expect(await store.load()).toBe(5);
+  });
+
+  it('leaves no temp file behind after writing', async () => {
+    const filePath = join(dir, 'cursor.json');
+    const store = new FileCursorStore({ filePath });
+
+    store.save(7);
+    await store.flush();
+
+    await expect(readFile(`${filePath}.tmp`, 'utf8')).rejects.toThrow();
+    expect(JSON.parse(await readFile(filePath, 'utf8')).lastAckSeq).toBe(7);
+  });
+
+  it('ignores a corrupt cursor file', async () => {
+    const filePath = join(dir, 'nested', 'cursor.json');
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, '{not json', 'utf8');
+
+    const store = new FileCursorStore({ filePath, logger: { warn: () => {} } });
+    expect(await store.load()).toBeNull();
+  });
+});
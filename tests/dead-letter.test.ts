@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileDeadLetterStore, resolveDeadLetterPath, type DeadLetterEntry } from '../src/dead-letter.js';
+
+function makeEntry(seq: number): DeadLetterEntry {
+  return {
+    event: {
+      type: 'city_event',
+      seq,
+      eventType: 'dm_message',
+      from: { id: 'u1', name: 'Alice' },
+      text: `message ${seq}`,
+      metadata: {},
+    },
+    error: 'Error: boom',
+    attempts: 3,
+    failedAt: 1700000000000,
+  };
+}
+
+describe('FileDeadLetterStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'occ-dlq-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('lists nothing when the file does not exist', async () => {
+    const store = new FileDeadLetterStore(resolveDeadLetterPath(dir, 'default'));
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('appends and lists entries in order', async () => {
+    const store = new FileDeadLetterStore(resolveDeadLetterPath(dir, 'default'));
+    await Promise.all([store.append(makeEntry(1)), store.append(makeEntry(2))]);
+
+    const entries = await store.list();
+    expect(entries.map((e) => e.event.seq)).toEqual([1, 2]);
+    expect(entries[0]).toEqual(makeEntry(1));
+  });
+
+  it('removes entries by seq', async () => {
+    const store = new FileDeadLetterStore(join(dir, 'dlq.jsonl'));
+    await store.append(makeEntry(1));
+    await store.append(makeEntry(2));
+    await store.append(makeEntry(3));
+
+    await store.remove([1, 3]);
+    expect((await store.list()).map((e) => e.event.seq)).toEqual([2]);
+  });
+
+  it('skips a torn trailing line', async () => {
+    const filePath = join(dir, 'dlq.jsonl');
+    const store = new FileDeadLetterStore(filePath);
+    await store.append(makeEntry(1));
+    await appendFile(filePath, '{"event":{"seq":', 'utf8');
+
+    expect((await store.list()).map((e) => e.event.seq)).toEqual([1]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DigestBuffer, buildDigestEvent, formatDigestText } from '../src/digest.js';
+import { normalize } from '../src/normalizer.js';
+import type { CityEvent } from '../src/types.js';
+
+function makeEvent(seq: number, overrides: Partial<CityEvent> = {}): CityEvent {
+  return {
+    type: 'city_event',
+    seq,
+    eventType: 'chat_mention',
+    from: { id: `u${seq}`, name: `Bot${seq}` },
+    text: `message ${seq}`,
+    timestamp: Date.UTC(2026, 0, 1, 12, seq),
+    metadata: { zoneId: 3 },
+    ...overrides,
+  };
+}
+
+describe('formatDigestText', () => {
+  it('lists every event in order under a header', () => {
+    const text = formatDigestText([
+      makeEvent(1),
+      makeEvent(2, { eventType: 'building_activity', metadata: { buildingId: 'library' } }),
+    ]);
+    expect(text.split('\n')).toEqual([
+      '2 city event(s) between 12:01 and 12:02 UTC:',
+      '1. 12:01 [Chat in Zone 3] Bot1: message 1',
+      '2. 12:02 [Activity in library] Bot2: message 2',
+    ]);
+  });
+});
+
+describe('buildDigestEvent', () => {
+  it('builds a synthetic digest event that records the underlying seqs', () => {
+    const event = buildDigestEvent([makeEvent(4), makeEvent(7)], 1000);
+    expect(event).toMatchObject({
+      eventType: 'digest',
+      synthetic: true,
+      timestamp: 1000,
+      metadata: { pendingId: 'digest-4-7', digestSeqs: [4, 7], eventCount: 2 },
+    });
+
+    const envelope = normalize(event);
+    expect(envelope.id).toBe('occ-digest-4-7');
+    expect(envelope.content.text.startsWith('[City digest] 2 city event(s)')).toBe(true);
+  });
+});
+
+describe('DigestBuffer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('flushes once the window has passed since the first event', () => {
+    vi.useFakeTimers();
+    const onFlush = vi.fn();
+    const buffer = new DigestBuffer({ windowMs: 1000, onFlush });
+
+    buffer.add(makeEvent(1));
+    vi.advanceTimersByTime(600);
+    buffer.add(makeEvent(2));
+    expect(onFlush).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(400);
+    expect(onFlush).toHaveBeenCalledWith([makeEvent(1), makeEvent(2)]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it('flushes early at maxEvents', () => {
+    vi.useFakeTimers();
+    const onFlush = vi.fn();
+    const buffer = new DigestBuffer({ windowMs: 1000, maxEvents: 2, onFlush });
+
+    buffer.add(makeEvent(1));
+    buffer.add(makeEvent(2));
+    expect(onFlush).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(onFlush).toHaveBeenCalledTimes(1);
+  });
+
+  it('clear() returns held events without flushing', () => {
+    vi.useFakeTimers();
+    const onFlush = vi.fn();
+    const buffer = new DigestBuffer({ windowMs: 1000, onFlush });
+
+    buffer.add(makeEvent(1));
+    expect(buffer.clear()).toEqual([makeEvent(1)]);
+    vi.advanceTimersByTime(1000);
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+});
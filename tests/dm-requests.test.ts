@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DmConversations,
+  buildDmRequestReply,
+  classifyDmRequestReply,
+  conversationIdFromResult,
+} from '../src/dm-requests.js';
+
+describe('classifyDmRequestReply', () => {
+  it('declines on a DECLINE marker', () => {
+    expect(classifyDmRequestReply('DECLINE: not today')).toEqual({ decision: 'decline', text: 'not today' });
+  });
+
+  it('accepts on an ACCEPT marker', () => {
+    expect(classifyDmRequestReply('[accept] hi!')).toEqual({ decision: 'accept', text: 'hi!' });
+  });
+
+  it('makes no decision for an unmarked reply', () => {
+    expect(classifyDmRequestReply(' Hey, happy to chat ')).toBeNull();
+  });
+});
+
+describe('buildDmRequestReply', () => {
+  it('builds accept_dm with the request conversation and opening message', () => {
+    expect(buildDmRequestReply('accept', 'bot-2', 'conv-1', 'hi')).toEqual({
+      type: 'agent_reply', action: 'accept_dm', targetId: 'bot-2', conversationId: 'conv-1', text: 'hi',
+    });
+  });
+
+  it('builds decline_dm without optional fields', () => {
+    expect(buildDmRequestReply('decline', 'bot-2', undefined, '')).toEqual({
+      type: 'agent_reply', action: 'decline_dm', targetId: 'bot-2',
+    });
+  });
+});
+
+describe('conversationIdFromResult', () => {
+  it('reads camelCase or snake_case ids', () => {
+    expect(conversationIdFromResult({ type: 'action_result', success: true, data: { conversationId: 'c1' } })).toBe('c1');
+    expect(conversationIdFromResult({ type: 'action_result', success: true, data: { conversation_id: 'c2' } })).toBe('c2');
+    expect(conversationIdFromResult({ type: 'action_result', success: true })).toBeUndefined();
+  });
+});
+
+describe('DmConversations', () => {
+  it('keeps the latest conversation per peer', () => {
+    const conversations = new DmConversations();
+    conversations.set('bot-2', 'c1');
+    conversations.set('bot-2', 'c2');
+    expect(conversations.get('bot-2')).toBe('c2');
+    expect(conversations.size).toBe(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventHandlerRegistry, TypeSightings } from '../src/event-handlers.js';
+import type { CityEventHandler } from '../src/event-handlers.js';
+
+describe('EventHandlerRegistry', () => {
+  const handler: CityEventHandler = { format: (event) => `[Party] ${event.text}` };
+
+  it('registers and unregisters handlers', () => {
+    const registry = new EventHandlerRegistry();
+    const unregister = registry.register('zone_party', handler);
+    expect(registry.get('zone_party')).toBe(handler);
+
+    unregister();
+    expect(registry.has('zone_party')).toBe(false);
+  });
+
+  it('keeps a newer registration when an older one is undone', () => {
+    const registry = new EventHandlerRegistry();
+    const newer: CityEventHandler = { format: () => 'newer' };
+    const unregisterOld = registry.register('zone_party', handler);
+    registry.register('zone_party', newer);
+
+    unregisterOld();
+    expect(registry.get('zone_party')).toBe(newer);
+  });
+
+  it('hands unknown frames to every listener, even when one throws', () => {
+    const registry = new EventHandlerRegistry();
+    const broken = vi.fn(() => { throw new Error('boom'); });
+    const listener = vi.fn();
+    registry.onUnknownFrame(broken);
+    const stop = registry.onUnknownFrame(listener);
+
+    registry.emitUnknownFrame({ type: 'weather', rain: true }, 'default');
+    expect(broken).toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledWith({ type: 'weather', rain: true }, 'default');
+
+    stop();
+    registry.emitUnknownFrame({ type: 'weather' }, 'default');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('TypeSightings', () => {
+  it('counts each type and lists the most recent first', () => {
+    const sightings = new TypeSightings();
+    sightings.record('weather', 1000);
+    sightings.record('zone_party', 2000);
+    sightings.record('weather', 3000);
+
+    expect(sightings.list()).toEqual([
+      { type: 'weather', count: 2, firstSeenAt: 1000, lastSeenAt: 3000 },
+      { type: 'zone_party', count: 1, firstSeenAt: 2000, lastSeenAt: 2000 },
+    ]);
+  });
+});
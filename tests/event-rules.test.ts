@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { matchEventRule, resolveRouteOverride, withAgentOverride } from '../src/event-rules.js';
+import type { CityEvent, EventRule } from '../src/types.js';
+
+function makeEvent(overrides: Partial<CityEvent> = {}): CityEvent {
+  return {
+    type: 'city_event',
+    seq: 1,
+    eventType: 'chat_mention',
+    from: { id: 'bot-7', name: 'Alice' },
+    text: 'hey',
+    metadata: { zoneId: 3, buildingId: null },
+    ...overrides,
+  };
+}
+
+describe('matchEventRule', () => {
+  const rules: EventRule[] = [
+    { match: { eventType: 'artifact_reaction' }, action: 'drop' },
+    { match: { eventType: ['chat_mention', 'building_activity'], zoneId: [3, 4] }, action: 'route', route: { peerId: 'zone:{zoneId}' } },
+    { match: { senderId: 'bot-7' }, action: 'dispatch' },
+  ];
+
+  it('returns the first matching rule', () => {
+    expect(matchEventRule(rules, makeEvent())).toBe(rules[1]);
+    expect(matchEventRule(rules, makeEvent({ eventType: 'artifact_reaction' }))).toBe(rules[0]);
+  });
+
+  it('requires every listed criterion to match', () => {
+    const event = makeEvent({ metadata: { zoneId: 9 } });
+    expect(matchEventRule(rules, event)).toBe(rules[2]);
+  });
+
+  it('does not match a criterion the event lacks', () => {
+    const rule: EventRule = { match: { buildingId: 'b-1' }, action: 'drop' };
+    expect(matchEventRule([rule], makeEvent())).toBeUndefined();
+    expect(matchEventRule([rule], makeEvent({ metadata: { buildingId: 'b-1' } }))).toBe(rule);
+  });
+
+  it('treats a rule without match as a catch-all', () => {
+    const rule: EventRule = { action: 'drop' };
+    expect(matchEventRule([rule], makeEvent({ eventType: 'dm_message' }))).toBe(rule);
+  });
+
+  it('returns undefined without rules', () => {
+    expect(matchEventRule(undefined, makeEvent())).toBeUndefined();
+  });
+});
+
+describe('resolveRouteOverride', () => {
+  it('fills peerId placeholders from the event', () => {
+    const rule: EventRule = { action: 'route', route: { peerId: '{eventType}:{zoneId}:{senderId}', chatType: 'group' } };
+    expect(resolveRouteOverride(rule, makeEvent())).toEqual({ peerId: 'chat_mention:3:bot-7', chatType: 'group' });
+  });
+
+  it('uses "unknown" for placeholders the event has no value for', () => {
+    const rule: EventRule = { action: 'route', route: { peerId: 'building:{buildingId}' } };
+    expect(resolveRouteOverride(rule, makeEvent()).peerId).toBe('building:unknown');
+  });
+});
+
+describe('withAgentOverride', () => {
+  it('rewrites the agent id and the agent segment of the session keys', () => {
+    const route = withAgentOverride(
+      { agentId: 'main', sessionKey: 'agent:main:openclawcity:direct:bot-7', mainSessionKey: 'agent:main:main' },
+      'harbor',
+    );
+    expect(route).toEqual({
+      agentId: 'harbor',
+      sessionKey: 'agent:harbor:openclawcity:direct:bot-7',
+      mainSessionKey: 'agent:harbor:main',
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { AckWatermark, KeyedScheduler, eventOrderingKey } from '../src/event-scheduler.js';
+import type { CityEvent } from '../src/types.js';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+describe('eventOrderingKey', () => {
+  const base: CityEvent = {
+    type: 'city_event',
+    seq: 1,
+    eventType: 'dm_message',
+    from: { id: 'u1', name: 'Alice' },
+    metadata: {},
+  };
+
+  it('prefers the conversation id', () => {
+    expect(eventOrderingKey({ ...base, metadata: { conversationId: 'c1' } })).toBe('conversation:c1');
+  });
+
+  it('falls back to the sender id', () => {
+    expect(eventOrderingKey(base)).toBe('sender:u1');
+    expect(eventOrderingKey({ ...base, from: undefined as any })).toBe('sender:unknown');
+  });
+
+  it('keys zone and building chat by place, whoever is talking', () => {
+    const zone = (id: string) => ({ ...base, eventType: 'chat_mention', from: { id, name: id }, metadata: { zoneId: 3 } });
+    expect(eventOrderingKey(zone('u1'))).toBe('place:zone:3');
+    expect(eventOrderingKey(zone('u2'))).toBe('place:zone:3');
+    expect(eventOrderingKey({ ...base, eventType: 'building_activity', metadata: { buildingId: 'b-7', zoneId: 3 } }))
+      .toBe('place:building:b-7');
+  });
+});
+
+describe('KeyedScheduler', () => {
+  it('runs tasks with the same key one at a time, in order', async () => {
+    const scheduler = new KeyedScheduler(4);
+    const log: string[] = [];
+    const first = deferred();
+
+    const a = scheduler.schedule('k', async () => { log.push('a:start'); await first.promise; log.push('a:end'); });
+    const b = scheduler.schedule('k', async () => { log.push('b:start'); });
+
+    await tick();
+    expect(log).toEqual(['a:start']);
+
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(log).toEqual(['a:start', 'a:end', 'b:start']);
+  });
+
+  it('runs chat from two senders in the same zone one at a time', async () => {
+    const scheduler = new KeyedScheduler(4);
+    const gate = deferred();
+    const started: string[] = [];
+    const mention = (id: string): CityEvent => ({
+      type: 'city_event', seq: 1, eventType: 'chat_mention', from: { id, name: id }, metadata: { zoneId: 3 },
+    });
+
+    const a = scheduler.schedule(eventOrderingKey(mention('u1')), async () => { started.push('u1'); await gate.promise; });
+    const b = scheduler.schedule(eventOrderingKey(mention('u2')), async () => { started.push('u2'); });
+
+    await tick();
+    expect(started).toEqual(['u1']);
+    gate.resolve();
+    await Promise.all([a, b]);
+    expect(started).toEqual(['u1', 'u2']);
+  });
+
+  it('runs different keys in parallel', async () => {
+    const scheduler = new KeyedScheduler(4);
+    const gate = deferred();
+    const started: string[] = [];
+
+    const a = scheduler.schedule('a', async () => { started.push('a'); await gate.promise; });
+    const b = scheduler.schedule('b', async () => { started.push('b'); await gate.promise; });
+
+    await tick();
+    expect(started).toEqual(['a', 'b']);
+    gate.resolve();
+    await Promise.all([a, b]);
+  });
+
+  it('caps global concurrency', async () => {
+    const scheduler = new KeyedScheduler(2);
+    const gate = deferred();
+    let peak = 0;
+
+    const tasks = ['a', 'b', 'c', 'd'].map((key) => scheduler.schedule(key, async () => {
+      peak = Math.max(peak, scheduler.running);
+      await gate.promise;
+    }));
+
+    await tick();
+    expect(scheduler.running).toBe(2);
+    gate.resolve();
+    await Promise.all(tasks);
+    expect(peak).toBe(2);
+    expect(scheduler.running).toBe(0);
+  });
+
+  it('keeps going after a task rejects', async () => {
+    const scheduler = new KeyedScheduler(1);
+    const failed = scheduler.schedule('k', async () => { throw new Error('boom'); });
+    const next = scheduler.schedule('k', async () => 'ok');
+
+    await expect(failed).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+  });
+});
+
+describe('AckWatermark', () => {
+  it('advances only over contiguous completed seqs', () => {
+    const wm = new AckWatermark();
+    wm.begin(1);
+    wm.begin(2);
+    wm.begin(3);
+
+    expect(wm.complete(3)).toBe(0);
+    expect(wm.complete(1)).toBe(1);
+    expect(wm.complete(2)).toBe(3);
+  });
+
+  it('never moves backwards', () => {
+    const wm = new AckWatermark(10);
+    wm.begin(12);
+    expect(wm.complete(12)).toBe(12);
+    wm.begin(11);
+    expect(wm.complete(11)).toBe(12);
+  });
+
+  it('reports completed seqs as done, including ones above the watermark', () => {
+    const wm = new AckWatermark();
+    wm.begin(1);
+    wm.begin(2);
+    wm.complete(2);
+
+    expect(wm.isDone(2)).toBe(true);
+    expect(wm.isDone(1)).toBe(false);
+    expect(wm.begin(1)).toBe(false); // already in flight
+  });
+
+  it('holds the watermark below an abandoned seq until it completes', () => {
+    const wm = new AckWatermark();
+    wm.begin(1);
+    wm.begin(2);
+    wm.abandon(1);
+    expect(wm.complete(2)).toBe(0);
+
+    // Server replays seq 1 and it succeeds this time
+    expect(wm.begin(1)).toBe(true);
+    expect(wm.complete(1)).toBe(2);
+  });
+
+  it('raises the floor from a restored cursor', () => {
+    const wm = new AckWatermark();
+    wm.raiseBase(50);
+    expect(wm.value).toBe(50);
+    expect(wm.isDone(49)).toBe(true);
+  });
+});
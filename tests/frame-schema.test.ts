@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { validatePendingEvent, validateServerFrame } from '../src/frame-schema.js';
+
+const event = {
+  type: 'city_event',
+  seq: 4,
+  eventType: 'dm_message',
+  from: { id: 'bot-1', name: 'Alice' },
+  text: 'hi',
+  metadata: { conversationId: 'c1' },
+};
+
+describe('validateServerFrame', () => {
+  it('accepts a well-formed city_event and keeps extra fields', () => {
+    const result = validateServerFrame({ ...event, priority: 'high' });
+    expect(result).toEqual({ ok: true, frame: { ...event, priority: 'high' } });
+  });
+
+  it('coerces a numeric string seq', () => {
+    const result = validateServerFrame({ ...event, seq: '12' });
+    expect(result.ok && result.frame).toMatchObject({ seq: 12 });
+  });
+
+  it('fills in a missing sender and metadata', () => {
+    const result = validateServerFrame({ type: 'city_event', seq: 1, eventType: 'zone_party', metadata: null });
+    expect(result.ok && result.frame).toMatchObject({ from: { id: 'unknown', name: 'Unknown' }, metadata: {} });
+  });
+
+  it('reads null optional fields as absent', () => {
+    const result = validateServerFrame({ ...event, from: { id: 'bot-1', name: null }, timestamp: null, text: null });
+    expect(result).toEqual({ ok: true, frame: { ...event, from: { id: 'bot-1' }, text: undefined } });
+    expect(validateServerFrame({ type: 'error', reason: 'auth_failed', message: null })).toMatchObject({ ok: true });
+    expect(validateServerFrame({ type: 'action_result', success: false, error: null })).toMatchObject({ ok: true });
+  });
+
+  it.each([
+    [1_700_000_000_000, 1_700_000_000_000],
+    ['1700000000000', 1_700_000_000_000],
+    ['2023-11-14T22:13:20.000Z', 1_700_000_000_000],
+    ['soon', undefined],
+    [{}, undefined],
+  ])('reads timestamp %j as %j', (timestamp, expected) => {
+    const result = validateServerFrame({ ...event, timestamp });
+    expect(result.ok).toBe(true);
+    expect(result.ok && (result.frame as { timestamp?: number }).timestamp).toBe(expected);
+  });
+
+  it('drops a server-sent synthetic flag', () => {
+    const result = validateServerFrame({ ...event, eventType: 'digest', synthetic: true });
+    expect(result.ok && result.frame.synthetic).toBeUndefined();
+  });
+
+  it.each([
+    ['a missing seq', { ...event, seq: undefined }, 'seq'],
+    ['a non-numeric seq', { ...event, seq: 'abc' }, 'seq'],
+    ['a negative seq', { ...event, seq: -1 }, 'seq'],
+    ['a fractional seq', { ...event, seq: 1.5 }, 'seq'],
+    ['an unsafe seq', { ...event, seq: '99999999999999999999' }, 'seq'],
+    ['an empty eventType', { ...event, eventType: '' }, 'eventType'],
+    ['a sender without id', { ...event, from: { name: 'Alice' } }, 'from.id'],
+    ['a non-object metadata', { ...event, metadata: 'x' }, 'metadata'],
+  ])('rejects a city_event with %s', (_label, frame, path) => {
+    const result = validateServerFrame(frame);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.invalid.type).toBe('city_event');
+      expect(result.invalid.issues.some((issue) => issue.startsWith(path))).toBe(true);
+    }
+  });
+
+  it('reports the seq as received', () => {
+    const result = validateServerFrame({ ...event, seq: 'abc' });
+    expect(!result.ok && result.invalid.seq).toBe('abc');
+  });
+
+  it.each([
+    [{ type: 'action_result', requestId: 'r1' }, 'success'],
+    [{ type: 'error' }, 'reason'],
+    [{ type: 'welcome', version: '1' }, 'version'],
+    [{ type: 'paused', message: 42 }, 'message'],
+  ])('rejects a malformed %j', (frame, path) => {
+    const result = validateServerFrame(frame);
+    expect(!result.ok && result.invalid.issues[0]).toMatch(new RegExp(`^${path}`));
+  });
+
+  it('keeps a welcome whose location and nearby entries are in another shape', () => {
+    const result = validateServerFrame({
+      type: 'welcome',
+      location: { zoneId: '3', zone_name: 'Plaza', buildingName: null },
+      nearby: [{ id: 'b1', name: null }, 'b2'],
+      nearby_bots: { b1: 'Ann' },
+    });
+    expect(result).toEqual({
+      ok: true,
+      frame: { type: 'welcome', location: { zone_name: 'Plaza', buildingName: null }, nearby: [{ id: 'b1', name: 'Unknown' }] },
+    });
+  });
+
+  it('rejects frames without a string type', () => {
+    expect(validateServerFrame(null)).toMatchObject({ ok: false });
+    expect(validateServerFrame([1])).toMatchObject({ ok: false });
+    expect(validateServerFrame({ seq: 1 })).toMatchObject({ ok: false, invalid: { issues: ['type: expected a string'] } });
+  });
+
+  it('passes frames of unknown types through', () => {
+    expect(validateServerFrame({ type: 'weather', sky: 'rain' })).toEqual({ ok: true, frame: { type: 'weather', sky: 'rain' } });
+    expect(validateServerFrame({ type: 'constructor' })).toEqual({ ok: true, frame: { type: 'constructor' } });
+  });
+});
+
+describe('validatePendingEvent', () => {
+  it('accepts legacy pending events without a type', () => {
+    const { type: _type, ...legacy } = event;
+    expect(validatePendingEvent(legacy)).toMatchObject({ ok: true, event: { type: 'city_event', seq: 4 } });
+  });
+
+  it('rejects pending events without a seq', () => {
+    expect(validatePendingEvent({ eventType: 'dm_message' })).toMatchObject({ ok: false, invalid: { type: 'city_event' } });
+    expect(validatePendingEvent('junk')).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,561 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OpenClawCityAdapter, type AdapterOptions } from '../src/adapter.js';
+import { MockCityServer } from '../src/mock-server.js';
+import { ConnectionState } from '../src/types.js';
+import type { MessageEnvelope, OpenClawCityAccountConfig } from '../src/types.js';
+import plugin from '../src/index.js';
+import type { MsgContext } from 'openclaw/plugin-sdk';
+
+// End-to-end tests against the in-process mock gateway: real ws sockets,
+// real URLs, headers and close codes, real timers.
+
+const BOT_ID = 'bot-int-1';
+const TOKEN = 'jwt-int-1';
+
+let server: MockCityServer;
+let adapters: OpenClawCityAdapter[];
+
+function makeConfig(overrides: Partial<OpenClawCityAccountConfig> = {}): OpenClawCityAccountConfig {
+  return {
+    botId: BOT_ID,
+    apiKey: TOKEN,
+    gatewayUrl: server.url,
+    reconnectBaseMs: 20,
+    reconnectMaxMs: 100,
+    pingIntervalMs: 60_000,
+    dispatchRetryBaseMs: 10,
+    ...overrides,
+  };
+}
+
+function makeAdapter(overrides: Partial<AdapterOptions> = {}): OpenClawCityAdapter {
+  const adapter = new OpenClawCityAdapter({
+    config: makeConfig(),
+    onMessage: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+  adapters.push(adapter);
+  return adapter;
+}
+
+beforeEach(async () => {
+  server = new MockCityServer({ botId: BOT_ID, token: TOKEN });
+  await server.start();
+  adapters = [];
+});
+
+afterEach(async () => {
+  for (const adapter of adapters) adapter.stop();
+  await server.stop();
+});
+
+describe('OpenClawCityAdapter against MockCityServer', () => {
+  it('authenticates with query params and headers', async () => {
+    const adapter = makeAdapter();
+    await adapter.connect();
+
+    expect(adapter.getState()).toBe(ConnectionState.CONNECTED);
+    const conn = server.connections[0];
+    expect(conn.handshake).toBe('query');
+    expect(conn.url.searchParams.get('botId')).toBe(BOT_ID);
+    expect(conn.url.searchParams.get('version')).toBe('1');
+    expect(conn.headers.authorization).toBe(`Bearer ${TOKEN}`);
+  });
+
+  it('authenticates with a hello frame in frame handshake mode', async () => {
+    const adapter = makeAdapter({ config: makeConfig({ handshake: 'frame' }) });
+    await adapter.connect();
+
+    const conn = server.connections[0];
+    expect(conn.handshake).toBe('hello');
+    expect(conn.url.searchParams.has('token')).toBe(false);
+  });
+
+  it('delivers events and acks them after dispatch', async () => {
+    const onMessage = vi.fn().mockResolvedValue(undefined);
+    const adapter = makeAdapter({ onMessage });
+    await adapter.connect();
+
+    server.pushEvent({ eventType: 'dm_message', text: 'hi', metadata: { conversationId: 'c1' } });
+    await server.waitFor(() => server.acks.includes(1));
+
+    const envelope = onMessage.mock.calls[0][0] as MessageEnvelope;
+    expect(envelope.id).toBe('occ-1');
+    expect(envelope.content.text).toContain('hi');
+    expect(server.pendingSeqs()).toEqual([]);
+  });
+
+  it('replays unacked events on reconnect and skips acked ones', async () => {
+    const onMessage = vi.fn().mockResolvedValue(undefined);
+    const adapter = makeAdapter({ onMessage });
+    await adapter.connect();
+
+    server.pushEvent({ eventType: 'chat_mention', text: 'one' });
+    await server.waitFor(() => server.acks.includes(1));
+
+    server.dropConnection();
+    server.pushEvent({ eventType: 'chat_mention', text: 'two' });
+    await server.waitFor(() => server.connections.length === 2);
+    await server.waitFor(() => server.acks.includes(2));
+
+    expect(server.connections[1].lastAckSeq).toBe(1);
+    expect(onMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('resolves sendReplyAndWait with the action_result for its requestId', async () => {
+    server = await restartServer({
+      onAgentReply: (reply) => reply.action === 'move'
+        ? { success: false, error: 'zone_locked' }
+        : { success: true, data: { ok: 1 } },
+    });
+    const adapter = makeAdapter({ config: makeConfig() });
+    await adapter.connect();
+
+    const result = await adapter.sendReplyAndWait({ type: 'agent_reply', action: 'speak', text: 'hello' });
+    expect(result.data).toEqual({ ok: 1 });
+    await expect(adapter.move({ zoneId: 3 })).rejects.toThrow('zone_locked');
+    expect(server.replies.map((r) => r.action)).toEqual(['speak', 'move']);
+  });
+
+  it('reports paused and resumed state', async () => {
+    const adapter = makeAdapter();
+    await adapter.connect();
+
+    server.pause('Owner break');
+    await server.waitFor(() => adapter.isPaused());
+    server.resume();
+    await server.waitFor(() => !adapter.isPaused());
+  });
+
+  it('holds non-owner events while paused and drains them on resume', async () => {
+    const onMessage = vi.fn().mockResolvedValue(undefined);
+    const adapter = makeAdapter({ onMessage, config: makeConfig({ resumeDrainIntervalMs: 10 }) });
+    await adapter.connect();
+
+    server.pause();
+    await server.waitFor(() => adapter.isPaused());
+    server.pushEvent({ eventType: 'chat_mention', text: 'held' });
+    server.pushEvent({ eventType: 'owner_message', text: 'owner' });
+    await server.waitFor(() => server.acks.includes(2));
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(server.pendingSeqs()).toEqual([1]);
+
+    server.resume();
+    await server.waitFor(() => server.acks.includes(1));
+    expect(onMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports paused state from the welcome frame', async () => {
+    server.pause();
+    const adapter = makeAdapter();
+    await adapter.connect();
+
+    expect(adapter.isPaused()).toBe(true);
+  });
+
+  it('reconnects after rate_limited once retryAfter elapses', async () => {
+    const adapter = makeAdapter();
+    await adapter.connect();
+
+    server.rateLimit(0.05);
+    await server.waitFor(() => adapter.getState() !== ConnectionState.CONNECTED);
+    await server.waitFor(() => adapter.getState() === ConnectionState.CONNECTED);
+    expect(server.connections).toHaveLength(2);
+  });
+
+  it('stops without reconnecting on close code 4000', async () => {
+    const adapter = makeAdapter();
+    await adapter.connect();
+
+    server.replaceConnection();
+    await server.waitFor(() => !server.connected);
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(server.connections).toHaveLength(1);
+    expect(adapter.getState()).toBe(ConnectionState.DISCONNECTED);
+  });
+});
+
+describe('startAccount against MockCityServer', () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), 'occ-int-'));
+  });
+
+  afterEach(async () => {
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  /** Register the plugin against a fake runtime and start the default account. */
+  type ReplyText = string | string[];
+
+  function startChannel(
+    replyText: ReplyText | ((ctx: MsgContext) => ReplyText) = 'Hello back',
+    accountOverrides: Record<string, unknown> = {},
+    failDispatches = 0,
+  ) {
+    const dispatched: MsgContext[] = [];
+    let failuresLeft = failDispatches;
+    let channel: any;
+    plugin.register({
+      runtime: {
+        version: 'test',
+        config: { loadConfig: () => ({}), writeConfigFile: vi.fn() },
+        state: { resolveStateDir: () => stateDir },
+        channel: {
+          routing: {
+            resolveAgentRoute: async ({ chatType, peerId }: { chatType: string; peerId?: string }) => ({
+              agentId: 'main',
+              sessionKey: `agent:main:openclawcity:${chatType}:${peerId}`,
+            }),
+          },
+          reply: {
+            finalizeInboundContext: (ctx: any) => ctx,
+            dispatchReplyWithBufferedBlockDispatcher: async ({ ctx, dispatcherOptions }: any) => {
+              dispatched.push(ctx);
+              if (failuresLeft > 0) {
+                failuresLeft--;
+                throw new Error('agent unavailable');
+              }
+              // An array is delivered as streamed blocks, the last one final
+              const reply = typeof replyText === 'function' ? replyText(ctx) : replyText;
+              const blocks = Array.isArray(reply) ? reply : [reply];
+              for (const [i, text] of blocks.entries()) {
+                await dispatcherOptions.deliver({ text }, { kind: i === blocks.length - 1 ? 'final' : 'block' });
+              }
+              return {};
+            },
+            formatInboundEnvelope: () => '',
+            resolveEnvelopeFormatOptions: () => ({}),
+          },
+          session: {
+            resolveStorePath: () => join(stateDir, 'sessions.json'),
+            recordInboundSession: async () => {},
+          },
+        },
+      },
+      logger: {},
+      registerChannel: ({ plugin: p }) => { channel = p; },
+    });
+
+    const abort = new AbortController();
+    const statuses: Record<string, unknown>[] = [];
+    const account = { botId: BOT_ID, apiKey: TOKEN, gatewayUrl: server.url, reconnectBaseMs: 20, ...accountOverrides };
+    const running = channel.gateway.startAccount({
+      cfg: { channels: { openclawcity: { accounts: { default: account } } } },
+      accountId: 'default',
+      account,
+      abortSignal: abort.signal,
+      setStatus: (s: Record<string, unknown>) => statuses.push(s),
+      getStatus: () => statuses[statuses.length - 1] ?? {},
+    });
+    return { channel, dispatched, statuses, abort, running };
+  }
+
+  it('runs an event through the agent turn and sends the reply', async () => {
+    server = await restartServer({
+      heartbeat: JSON.stringify({ location: { zone_id: 1, zone_name: 'Downtown' }, needs: { energy: 40 } }),
+    });
+    const { dispatched, statuses, abort, running } = startChannel();
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({
+      eventType: 'dm_message',
+      from: { id: 'u1', name: 'Alice' },
+      text: 'hey there',
+      metadata: { conversationId: 'conv-9' },
+    });
+    await server.waitFor(() => server.replies.length === 1 && server.acks.includes(1));
+
+    expect(dispatched[0].Body).toBe('[DM from Alice] hey there');
+    expect(dispatched[0].CommandBody).toBe('[DM from Alice] hey there');
+    expect(dispatched[0].CommandAuthorized).toBe(false);
+    expect(dispatched[0].UntrustedContext?.[0]).toContain('Location: Downtown (zone 1)');
+    expect(dispatched[0].UntrustedContext?.[0]).toContain('Needs: energy 40');
+    expect(server.replies[0]).toMatchObject({ action: 'dm_reply', message: 'Hello back', conversation_id: 'conv-9' });
+    expect(statuses.some((s) => s.connected === true)).toBe(true);
+
+    abort.abort();
+    await running;
+    expect(statuses[statuses.length - 1]).toMatchObject({ running: false, connected: false });
+  });
+
+  it('shows city context again after a failed dispatch, and only once it got through', async () => {
+    server = await restartServer({
+      heartbeat: JSON.stringify({ location: { zone_id: 1, zone_name: 'Downtown' } }),
+    });
+    const { dispatched, abort, running } = startChannel('Hello back', {}, 1);
+
+    await server.waitFor(() => server.connections.length === 1);
+    const dm = { eventType: 'dm_message', from: { id: 'u1', name: 'Alice' }, metadata: { conversationId: 'conv-9' } };
+    server.pushEvent({ ...dm, text: 'one' });
+    await server.waitFor(() => server.acks.includes(1));
+    server.pushEvent({ ...dm, text: 'two' });
+    await server.waitFor(() => server.acks.includes(2));
+
+    // Attempt 1 failed, its retry succeeded, then the next turn has nothing new
+    expect(dispatched).toHaveLength(3);
+    expect(dispatched[0].UntrustedContext?.[0]).toContain('Location: Downtown (zone 1)');
+    expect(dispatched[1].UntrustedContext?.[0]).toContain('Location: Downtown (zone 1)');
+    expect(dispatched[2].UntrustedContext).toBeUndefined();
+
+    abort.abort();
+    await running;
+  });
+
+  it('refuses to start an account with an invalid config before connecting', async () => {
+    const { channel, statuses, running } = startChannel('Hello back', { apiKey: undefined, gatewayUrl: 'http://example.com' });
+
+    await expect(running).rejects.toThrow('Invalid OpenClawCity config for account "default"');
+    expect(server.connections).toHaveLength(0);
+    expect(statuses[statuses.length - 1]).toMatchObject({ running: false, lastError: expect.stringContaining('apiKey: required') });
+
+    const resolved = channel.config.resolveAccount({ channels: { openclawcity: { accounts: { default: { botId: BOT_ID } } } } }, 'default');
+    expect(resolved.configErrors).toEqual(['apiKey: required']);
+  });
+
+  it('rejects malformed frames, counts them in status and keeps acking', async () => {
+    const { dispatched, statuses, abort, running } = startChannel();
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.sendFrame({ type: 'city_event', seq: 'oops', eventType: 'dm_message', from: { id: 'u1', name: 'Alice' }, metadata: {} });
+    await server.waitFor(() => statuses.some((s) => s.invalidFrames === 1));
+
+    server.pushEvent({ eventType: 'dm_message', from: { id: 'u1', name: 'Alice' }, text: 'hi' });
+    await server.waitFor(() => server.acks.includes(1));
+    expect(dispatched).toHaveLength(1);
+    expect(server.acks).toEqual([1]);
+
+    abort.abort();
+    await running;
+  });
+
+  it('authorizes commands only for owner messages', async () => {
+    const { dispatched, abort, running } = startChannel();
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({ eventType: 'owner_message', from: { id: 'owner', name: 'Owner' }, text: '/status' });
+    server.pushEvent({ eventType: 'chat_mention', from: { id: 'u9', name: 'Mallory' }, text: '/status', metadata: { zoneId: 1 } });
+    await server.waitFor(() => server.acks.includes(1) && server.acks.includes(2));
+
+    const bySender = Object.fromEntries(dispatched.map((ctx) => [ctx.SenderId, ctx]));
+    expect(bySender.owner).toMatchObject({ CommandAuthorized: true, Body: '[Message from your human] /status' });
+    expect(bySender.u9).toMatchObject({ CommandAuthorized: false, Body: '[Chat in Zone 1] Mallory: \\/status' });
+
+    abort.abort();
+    await running;
+  });
+
+  it('turns a marked reply to a proposal into an accept action', async () => {
+    const { dispatched, abort, running } = startChannel('ACCEPT: see you at the studio');
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({
+      eventType: 'proposal_received',
+      from: { id: 'u2', name: 'Bob' },
+      text: 'Paint a mural?',
+      metadata: { proposalId: 'p-1', expiresIn: 10 },
+    });
+    await server.waitFor(() => server.replies.length === 1 && server.acks.includes(1));
+
+    expect(dispatched[0].Body).toContain('To answer proposal p-1');
+    expect(server.replies[0]).toMatchObject({ action: 'accept_proposal', proposal_id: 'p-1', message: 'see you at the studio' });
+
+    abort.abort();
+    await running;
+  });
+
+  it('answers a proposal once per turn and never speaks the rest in the zone', async () => {
+    const { abort, running } = startChannel(['Hmm, let me think.', 'ACCEPT: deal', 'Looking forward to it!', 'DECLINE']);
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({
+      eventType: 'proposal_received',
+      from: { id: 'u2', name: 'Bob' },
+      text: 'Paint a mural?',
+      metadata: { proposalId: 'p-3', expiresIn: 10 },
+    });
+    await server.waitFor(() => server.replies.length === 1 && server.acks.includes(1));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(server.replies).toHaveLength(1);
+    expect(server.replies[0]).toMatchObject({ action: 'accept_proposal', proposal_id: 'p-3', message: 'deal' });
+
+    abort.abort();
+    await running;
+  });
+
+  it('sends proposal talk by DM when a conversation with the proposer is open', async () => {
+    const { abort, running } = startChannel(['Maybe, tell me more?']);
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({ eventType: 'dm_message', from: { id: 'u2', name: 'Bob' }, text: 'hi', metadata: { conversationId: 'conv-b' } });
+    server.pushEvent({
+      eventType: 'proposal_received',
+      from: { id: 'u2', name: 'Bob' },
+      text: 'Paint a mural?',
+      metadata: { proposalId: 'p-4', expiresIn: 10 },
+    });
+    await server.waitFor(() => server.replies.length === 2 && server.acks.includes(2));
+
+    expect(server.replies.map((r) => r.action)).toEqual(['dm_reply', 'dm_reply']);
+    expect(server.replies[1]).toMatchObject({ conversation_id: 'conv-b', message: 'Maybe, tell me more?' });
+
+    abort.abort();
+    await running;
+  });
+
+  it('flags proposals that expired before the turn and sends no decision', async () => {
+    const { dispatched, abort, running } = startChannel('DECLINE');
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({
+      eventType: 'proposal_received',
+      from: { id: 'u2', name: 'Bob' },
+      text: 'Paint a mural?',
+      timestamp: Date.now() - 20 * 60_000,
+      metadata: { proposalId: 'p-2', expiresIn: 10 },
+    });
+    await server.waitFor(() => server.acks.includes(1));
+
+    expect(dispatched[0].Body).toContain('This proposal has expired');
+    expect(server.replies).toEqual([]);
+
+    abort.abort();
+    await running;
+  });
+
+  it('accepts a DM request privately and replies to that bot by DM afterwards', async () => {
+    server = await restartServer({
+      onAgentReply: (reply) => reply.action === 'accept_dm'
+        ? { success: true, data: { conversation_id: 'conv-new' } }
+        : { success: true },
+    });
+    const { dispatched, abort, running } = startChannel((ctx) =>
+      (ctx.Body?.startsWith('[DM request') ? 'ACCEPT: Happy to chat' : 'Happy to chat'));
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({ eventType: 'dm_request', from: { id: 'u3', name: 'Cara' }, text: 'Can we talk?' });
+    await server.waitFor(() => server.replies.length === 1 && server.acks.includes(1));
+    expect(dispatched[0].Body).toContain('start your reply with ACCEPT');
+    expect(server.replies[0]).toMatchObject({ action: 'accept_dm', target_id: 'u3', message: 'Happy to chat' });
+
+    server.pushEvent({ eventType: 'artifact_reaction', from: { id: 'u3', name: 'Cara' }, metadata: { reaction: '🎨' } });
+    await server.waitFor(() => server.replies.length === 2);
+    expect(server.replies[1]).toMatchObject({ action: 'dm_reply', conversation_id: 'conv-new', message: 'Happy to chat' });
+
+    abort.abort();
+    await running;
+  });
+
+  it('declines a DM request without speaking in the zone', async () => {
+    const { abort, running } = startChannel(['DECLINE: busy right now', 'Maybe another time!']);
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({
+      eventType: 'dm_request',
+      from: { id: 'u3', name: 'Cara' },
+      text: 'Can we talk?',
+      metadata: { conversationId: 'conv-req' },
+    });
+    await server.waitFor(() => server.replies.length === 1 && server.acks.includes(1));
+
+    expect(server.replies).toHaveLength(1);
+    expect(server.replies[0]).toMatchObject({
+      action: 'decline_dm', target_id: 'u3', conversation_id: 'conv-req', message: 'busy right now',
+    });
+
+    abort.abort();
+    await running;
+  });
+
+  it('sends nothing for a DM request reply without a decision', async () => {
+    const { abort, running } = startChannel('Who is this?');
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({
+      eventType: 'dm_request',
+      from: { id: 'u3', name: 'Cara' },
+      text: 'Can we talk?',
+      metadata: { conversationId: 'conv-req' },
+    });
+    await server.waitFor(() => server.acks.includes(1));
+
+    expect(server.replies).toEqual([]);
+
+    abort.abort();
+    await running;
+  });
+
+  it('sends outbound.sendText as the same dm_reply frame as event replies', async () => {
+    const { channel, abort, running } = startChannel();
+    await server.waitFor(() => server.connections.length === 1);
+    await server.waitFor(() => server.connected);
+
+    await expect(channel.outbound.sendText({ accountId: 'default', to: 'conv-5', text: 'proactive hello' }))
+      .resolves.toEqual({ ok: true });
+    const { requestId, ...frame } = server.replies[0];
+    expect(frame).toEqual({ type: 'agent_reply', action: 'dm_reply', message: 'proactive hello', conversation_id: 'conv-5' });
+
+    await expect(channel.outbound.sendText({ accountId: 'default', text: 'nowhere' }))
+      .resolves.toMatchObject({ ok: false });
+
+    abort.abort();
+    await running;
+  });
+
+  it('keys zone chat as a group session and speaks the reply in that zone', async () => {
+    const { dispatched, abort, running } = startChannel();
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({
+      eventType: 'chat_mention',
+      from: { id: 'u1', name: 'Alice' },
+      text: '@bot hi',
+      metadata: { zoneId: 4, zoneName: 'Harbor' },
+    });
+    await server.waitFor(() => server.replies.length === 1 && server.acks.includes(1));
+
+    expect(dispatched[0]).toMatchObject({
+      ChatType: 'group',
+      SessionKey: 'agent:main:openclawcity:group:zone:4',
+      ConversationLabel: 'Harbor',
+      WasMentioned: true,
+      SenderId: 'u1',
+    });
+    expect(server.replies[0]).toMatchObject({ action: 'speak', text: 'Hello back', zoneId: 4 });
+
+    abort.abort();
+    await running;
+  });
+
+  it('sends no reply for a digest turn', async () => {
+    const { dispatched, abort, running } = startChannel('Nice to see everyone', {
+      digestEventTypes: ['artifact_reaction'],
+      digestWindowMs: 50,
+    });
+
+    await server.waitFor(() => server.connections.length === 1);
+    server.pushEvent({ eventType: 'artifact_reaction', from: { id: 'u1', name: 'Alice' }, metadata: { reaction: '🔥' } });
+    server.pushEvent({ eventType: 'artifact_reaction', from: { id: 'u2', name: 'Bob' }, metadata: { reaction: '🎨' } });
+    await server.waitFor(() => server.acks.includes(1) && server.acks.includes(2));
+
+    expect(dispatched).toHaveLength(1);
+    expect(dispatched[0].Body).toContain('[City digest]');
+    expect(server.replies).toEqual([]);
+
+    abort.abort();
+    await running;
+  });
+});
+
+async function restartServer(opts: ConstructorParameters<typeof MockCityServer>[0]): Promise<MockCityServer> {
+  await server.stop();
+  const next = new MockCityServer({ botId: BOT_ID, token: TOKEN, ...opts });
+  await next.start();
+  return next;
+}
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { normalize, formatEventText, formatWelcomeText } from '../src/normalizer.js';
+import {
+  normalize,
+  formatEventText,
+  formatWelcomeText,
+  normalizePendingItems,
+  pendingItemToEvent,
+  buildPendingSummaryEvent,
+  buildWelcomeEvent,
+  resolveChat,
+} from '../src/normalizer.js';
 import type { CityEvent, WelcomeFrame } from '../src/types.js';
 
 function makeEvent(overrides: Partial<CityEvent> = {}): CityEvent {
@@ -117,7 +126,7 @@ describe('formatEventText', () => {
 
   it('handles unknown event types gracefully', () => {
     const event = makeEvent({ eventType: 'unknown_type' as any, text: 'something' });
-    expect(formatEventText(event)).toBe('[unknown_type] Alice: something');
+    expect(formatEventText(event)).toBe('[unknown_type] Alice: something (conversationId: conv-1)');
   });
 
   it('handles missing text (undefined)', () => {
@@ -295,3 +304,136 @@ describe('normalize', () => {
     expect(e2.id).toBe('occ-200');
   });
 });
+
+// ── resolveChat ──
+
+describe('resolveChat', () => {
+  it('keys DMs as a direct chat with the sender', () => {
+    expect(resolveChat(makeEvent())).toEqual({
+      type: 'direct',
+      peerId: 'user-1',
+      label: 'Alice',
+      wasMentioned: true,
+    });
+  });
+
+  it('keys zone mentions as a group chat per zone', () => {
+    const chat = resolveChat(makeEvent({ eventType: 'chat_mention', metadata: { zoneId: 3, buildingId: null } }));
+    expect(chat).toEqual({ type: 'group', peerId: 'zone:3', label: 'Zone 3', wasMentioned: true, zoneId: 3 });
+  });
+
+  it('keys building activity as a group chat per building, not mentioned', () => {
+    const chat = resolveChat(makeEvent({
+      eventType: 'building_activity',
+      metadata: { zoneId: 3, buildingId: 'b-7', buildingName: 'Library' },
+    }));
+    expect(chat).toEqual({ type: 'group', peerId: 'building:b-7', label: 'Library', wasMentioned: false, buildingId: 'b-7' });
+  });
+
+  it('falls back to a direct chat when the event has no place', () => {
+    expect(resolveChat(makeEvent({ eventType: 'chat_mention', metadata: {} })).type).toBe('direct');
+  });
+
+  it('turns a numeric buildingId into a string and accepts a numeric-string zoneId', () => {
+    expect(resolveChat(makeEvent({ eventType: 'building_activity', metadata: { buildingId: 7 } })))
+      .toMatchObject({ peerId: 'building:7', buildingId: '7' });
+    expect(resolveChat(makeEvent({ eventType: 'chat_mention', metadata: { zoneId: '4' } })))
+      .toMatchObject({ peerId: 'zone:4', zoneId: 4 });
+  });
+
+  it('ignores place ids a speak reply could not carry', () => {
+    const chat = (metadata: Record<string, unknown>) => resolveChat(makeEvent({ eventType: 'chat_mention', metadata }));
+    expect(chat({ zoneId: 'downtown' }).type).toBe('direct');
+    expect(chat({ zoneId: 2.5 }).type).toBe('direct');
+    expect(chat({ buildingId: { id: 'b-1' }, zoneId: 3 })).toMatchObject({ peerId: 'zone:3', zoneId: 3 });
+  });
+});
+
+// ── Pending Items ──
+
+const PENDING_ITEMS = {
+  unread_dms: [
+    { conversation_id: 'conv-7', from: { id: 'u2', name: 'Bob' }, unread_count: 3, last_message: 'you there?', timestamp: 1700 },
+  ],
+  dm_requests: [{ from: { id: 'u3', name: 'Carol' }, message: 'hi!' }],
+  proposals: [{ proposal_id: 'p-1', from: { id: 'u4', name: 'Dan' }, message: 'collab?', expires_in: 15 }],
+  owner_messages: [{ id: 'm-1', message: 'check in please' }],
+};
+
+describe('normalizePendingItems', () => {
+  it('parses every known list into typed items', () => {
+    const items = normalizePendingItems(PENDING_ITEMS);
+    expect(items.map((i) => i.kind)).toEqual(['dm', 'dm_request', 'proposal', 'owner_message']);
+    expect(items[0]).toMatchObject({ conversationId: 'conv-7', unreadCount: 3, text: 'you there?' });
+    expect(items[2]).toMatchObject({ proposalId: 'p-1', expiresIn: 15 });
+  });
+
+  it('gives items ids that are stable across welcomes', () => {
+    const first = normalizePendingItems(PENDING_ITEMS).map((i) => i.id);
+    const second = normalizePendingItems(structuredClone(PENDING_ITEMS)).map((i) => i.id);
+    expect(second).toEqual(first);
+  });
+
+  it('skips malformed entries and unknown lists', () => {
+    const items = normalizePendingItems({
+      unread_dms: [null, 'x', { from: { id: 'u1' } }],
+      proposals: { proposal_id: 'not-a-list' },
+      trades: [{ id: 't-1' }],
+    });
+    expect(items).toEqual([]);
+  });
+
+  it('returns nothing for a missing payload', () => {
+    expect(normalizePendingItems(undefined)).toEqual([]);
+  });
+});
+
+describe('pendingItemToEvent', () => {
+  it('maps items to synthetic events with the matching eventType', () => {
+    const events = normalizePendingItems(PENDING_ITEMS).map(pendingItemToEvent);
+    expect(events.map((e) => e.eventType)).toEqual(['dm_message', 'dm_request', 'proposal_received', 'owner_message']);
+    expect(events.every((e) => e.synthetic)).toBe(true);
+    expect(events[0].metadata.conversationId).toBe('conv-7');
+    expect(formatEventText(events[0])).toBe('[DM from Bob] (3 unread) you there?');
+  });
+
+  it('normalizes synthetic events with a pending id and flag', () => {
+    const [dm] = normalizePendingItems(PENDING_ITEMS);
+    const envelope = normalize(pendingItemToEvent(dm));
+    expect(envelope.id).toBe(`occ-${dm.id}`);
+    expect(envelope.metadata.synthetic).toBe(true);
+  });
+});
+
+describe('buildPendingSummaryEvent', () => {
+  it('summarizes every item in one catch-up event', () => {
+    const event = buildPendingSummaryEvent(normalizePendingItems(PENDING_ITEMS), 42);
+    const text = formatEventText(event);
+    expect(event.eventType).toBe('pending_summary');
+    expect(text).toContain('[Catch-up] While you were away:');
+    expect(text).toContain('- 3 unread DMs from Bob (conversation conv-7): "you there?"');
+    expect(text).toContain('- DM request from Carol: "hi!"');
+    expect(text).toContain('- Proposal from Dan (p-1, expires in 15 min): "collab?"');
+    expect(text).toContain('- Your human wrote: "check in please"');
+    expect(event.metadata.pendingCount).toBe(4);
+  });
+});
+
+describe('buildWelcomeEvent', () => {
+  it('carries location, nearby bots and pending counts', () => {
+    const welcome: WelcomeFrame = {
+      type: 'welcome',
+      version: 1,
+      location: { zoneId: 2, zoneName: 'Harbor' },
+      nearby_bots: [{ id: 'b1', name: 'Alice' }],
+      pending: [makeEvent()],
+      pending_items: PENDING_ITEMS,
+    };
+    const event = buildWelcomeEvent(welcome);
+
+    expect(event.synthetic).toBe(true);
+    expect(formatEventText(event)).toBe(formatWelcomeText(welcome));
+    expect(formatEventText(event)).toContain('You have 5 pending event(s).');
+    expect(event.metadata).toMatchObject({ zoneId: 2, zoneName: 'Harbor', nearbyCount: 1, pendingCount: 5 });
+  });
+});
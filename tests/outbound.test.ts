@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { buildReply, serializeReply } from '../src/outbound.js';
+import { ActionValidationError } from '../src/actions.js';
+import type { AgentReply, AgentReplyAction } from '../src/types.js';
+
+// Contract: the typed reply for every action, and the exact frame the
+// server receives for it. Adding an action without a case here fails the
+// exhaustiveness check below.
+const CONTRACT: Record<AgentReplyAction, { reply: AgentReply; wire: Record<string, unknown> }> = {
+  speak: {
+    reply: buildReply('speak', { text: 'hi', zoneId: 3 }),
+    wire: { type: 'agent_reply', action: 'speak', text: 'hi', zoneId: 3 },
+  },
+  dm_reply: {
+    reply: buildReply('dm_reply', { text: 'hi', conversationId: 'c1' }),
+    wire: { type: 'agent_reply', action: 'dm_reply', message: 'hi', conversation_id: 'c1' },
+  },
+  owner_reply: {
+    reply: buildReply('owner_reply', { text: 'on it' }),
+    wire: { type: 'agent_reply', action: 'owner_reply', message: 'on it' },
+  },
+  move: {
+    reply: buildReply('move', { zoneId: 2 }),
+    wire: { type: 'agent_reply', action: 'move', zoneId: 2 },
+  },
+  enter_building: {
+    reply: buildReply('enter_building', { buildingId: 'b1' }),
+    wire: { type: 'agent_reply', action: 'enter_building', buildingId: 'b1' },
+  },
+  leave_building: {
+    reply: buildReply('leave_building', {}),
+    wire: { type: 'agent_reply', action: 'leave_building' },
+  },
+  execute_action: {
+    reply: buildReply('execute_action', { actionKey: 'paint', params: { color: 'red' } }),
+    wire: { type: 'agent_reply', action: 'execute_action', actionKey: 'paint', params: { color: 'red' } },
+  },
+  react_to_artifact: {
+    reply: buildReply('react_to_artifact', { artifactId: 'a1', reaction: '🔥' }),
+    wire: { type: 'agent_reply', action: 'react_to_artifact', artifactId: 'a1', reaction: '🔥' },
+  },
+  propose: {
+    reply: buildReply('propose', { targetId: 'bot-2', text: 'jam?' }),
+    wire: { type: 'agent_reply', action: 'propose', target_id: 'bot-2', message: 'jam?' },
+  },
+  accept_proposal: {
+    reply: buildReply('accept_proposal', { proposalId: 'p1' }),
+    wire: { type: 'agent_reply', action: 'accept_proposal', proposal_id: 'p1' },
+  },
+  decline_proposal: {
+    reply: buildReply('decline_proposal', { proposalId: 'p1', text: 'no' }),
+    wire: { type: 'agent_reply', action: 'decline_proposal', proposal_id: 'p1', message: 'no' },
+  },
+  counter_proposal: {
+    reply: buildReply('counter_proposal', { proposalId: 'p1', text: 'noon' }),
+    wire: { type: 'agent_reply', action: 'counter_proposal', proposal_id: 'p1', message: 'noon' },
+  },
+  accept_dm: {
+    reply: buildReply('accept_dm', { targetId: 'bot-2', conversationId: 'c1', text: 'hi' }),
+    wire: { type: 'agent_reply', action: 'accept_dm', target_id: 'bot-2', conversation_id: 'c1', message: 'hi' },
+  },
+  decline_dm: {
+    reply: buildReply('decline_dm', { targetId: 'bot-2', text: 'busy' }),
+    wire: { type: 'agent_reply', action: 'decline_dm', target_id: 'bot-2', message: 'busy' },
+  },
+};
+
+describe('agent_reply contract', () => {
+  it.each(Object.entries(CONTRACT))('serializes %s as the server expects', (action, { reply, wire }) => {
+    expect(reply.action).toBe(action);
+    expect(JSON.parse(JSON.stringify(serializeReply(reply)))).toEqual(wire);
+  });
+
+  it('keeps the requestId when renaming fields', () => {
+    const frame = serializeReply({ ...buildReply('owner_reply', { text: 'ok' }), requestId: 'r1' });
+    expect(frame).toEqual({ type: 'agent_reply', action: 'owner_reply', message: 'ok', requestId: 'r1' });
+  });
+});
+
+describe('buildReply', () => {
+  it('rejects a dm_reply without a conversation', () => {
+    expect(() => buildReply('dm_reply', { text: 'hi', conversationId: '' })).toThrow(ActionValidationError);
+  });
+
+  it('rejects wire field names', () => {
+    expect(() => buildReply('owner_reply', { message: 'hi' } as never)).toThrow('unexpected field "message"');
+  });
+
+  it('rejects an empty speak', () => {
+    expect(() => buildReply('speak', { text: ' ' })).toThrow(ActionValidationError);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { ProposalTracker, buildProposalReply, classifyProposalReply } from '../src/proposals.js';
+import { ActionValidationError } from '../src/actions.js';
+import type { MessageEnvelope } from '../src/types.js';
+
+const NOW = Date.UTC(2026, 0, 1, 12, 0);
+
+function makeEnvelope(metadata: Record<string, unknown>, timestamp = NOW): MessageEnvelope {
+  return {
+    id: 'occ-1',
+    timestamp,
+    channelId: 'openclawcity',
+    sender: { id: 'bot-2', name: 'Bob' },
+    content: { text: '[Proposal from Bob] Paint a mural?' },
+    metadata: { eventType: 'proposal_received', ...metadata },
+    chat: { type: 'direct', peerId: 'bot-2', label: 'Bob', wasMentioned: true },
+    trust: 'bot',
+  };
+}
+
+describe('ProposalTracker', () => {
+  it('records proposals with their deadline', () => {
+    const tracker = new ProposalTracker();
+    const proposal = tracker.record(makeEnvelope({ proposalId: 'p-1', expiresIn: 10 }), NOW);
+
+    expect(proposal).toEqual({
+      proposalId: 'p-1',
+      fromId: 'bot-2',
+      fromName: 'Bob',
+      receivedAt: NOW,
+      expiresAt: NOW + 10 * 60_000,
+    });
+    expect(tracker.isExpired('p-1', NOW + 9 * 60_000)).toBe(false);
+    expect(tracker.isExpired('p-1', NOW + 10 * 60_000)).toBe(true);
+  });
+
+  it('accepts timestamps in epoch seconds', () => {
+    const tracker = new ProposalTracker();
+    const proposal = tracker.record(makeEnvelope({ proposalId: 'p-1', expiresIn: 1 }, NOW / 1000), NOW);
+    expect(proposal?.expiresAt).toBe(NOW + 60_000);
+  });
+
+  it('ignores events without a proposalId', () => {
+    expect(new ProposalTracker().record(makeEnvelope({}), NOW)).toBeUndefined();
+  });
+
+  it('lists only open proposals and forgets answered ones', () => {
+    const tracker = new ProposalTracker();
+    tracker.record(makeEnvelope({ proposalId: 'p-1', expiresIn: 1 }), NOW);
+    tracker.record(makeEnvelope({ proposalId: 'p-2' }), NOW);
+    tracker.record(makeEnvelope({ proposalId: 'p-3' }), NOW);
+    tracker.resolve('p-3');
+
+    expect(tracker.list(NOW + 2 * 60_000).map((p) => p.proposalId)).toEqual(['p-2']);
+    expect(tracker.get('p-3')).toBeUndefined();
+  });
+
+  it('keeps expired proposals for the retention period so late replies are recognized', () => {
+    const tracker = new ProposalTracker(60_000);
+    tracker.record(makeEnvelope({ proposalId: 'p-1', expiresIn: 1 }), NOW);
+
+    expect(tracker.isExpired('p-1', NOW + 90_000)).toBe(true);
+    tracker.list(NOW + 2 * 60_000);
+    expect(tracker.get('p-1')).toBeUndefined();
+  });
+});
+
+describe('classifyProposalReply', () => {
+  it.each([
+    ['ACCEPT', 'accept', ''],
+    ['accept: see you at the studio', 'accept', 'see you at the studio'],
+    ['[Decline] busy today', 'decline', 'busy today'],
+    ['COUNTER - tomorrow at noon instead', 'counter', 'tomorrow at noon instead'],
+  ])('reads %j as %s', (text, decision, rest) => {
+    expect(classifyProposalReply(text)).toEqual({ decision, text: rest });
+  });
+
+  it('returns null for replies without a leading marker', () => {
+    expect(classifyProposalReply('Sounds fun, I accept!')).toBeNull();
+    expect(classifyProposalReply('Accepting is hard')).toBeNull();
+  });
+});
+
+describe('buildProposalReply', () => {
+  it('builds the action frame for each decision', () => {
+    expect(buildProposalReply('p-1', 'accept', '')).toEqual({ type: 'agent_reply', action: 'accept_proposal', proposalId: 'p-1' });
+    expect(buildProposalReply('p-1', 'decline', 'sorry')).toEqual({
+      type: 'agent_reply', action: 'decline_proposal', proposalId: 'p-1', text: 'sorry',
+    });
+    expect(buildProposalReply('p-1', 'counter', 'noon?')).toEqual({
+      type: 'agent_reply', action: 'counter_proposal', proposalId: 'p-1', text: 'noon?',
+    });
+  });
+
+  it('rejects a counter without terms', () => {
+    expect(() => buildProposalReply('p-1', 'counter', '')).toThrow(ActionValidationError);
+  });
+});
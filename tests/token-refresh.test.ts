@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { requestTokenRefresh, withRefreshedApiKey } from '../src/token-refresh.js';
+
+describe('requestTokenRefresh', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('POSTs to /agents/refresh with the expired token and returns the new one', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ jwt: 'new-jwt' }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(requestTokenRefresh('https://api.example.com', 'old-jwt')).resolves.toBe('new-jwt');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.com/agents/refresh');
+    expect(init.method).toBe('POST');
+    expect(init.headers.Authorization).toBe('Bearer old-jwt');
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('accepts a "token" field', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({ token: 't2' }))));
+    await expect(requestTokenRefresh('https://api.example.com', 'old')).resolves.toBe('t2');
+  });
+
+  it('throws on a non-2xx response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('nope', { status: 401, statusText: 'Unauthorized' })));
+    await expect(requestTokenRefresh('https://api.example.com', 'old')).rejects.toThrow(/401 Unauthorized/);
+  });
+
+  it('throws when the response has no token', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify({ ok: true }))));
+    await expect(requestTokenRefresh('https://api.example.com', 'old')).rejects.toThrow(/no token/);
+  });
+});
+
+describe('withRefreshedApiKey', () => {
+  it('updates the nested account entry', () => {
+    const cfg = {
+      gateway: { port: 1 },
+      channels: {
+        telegram: { token: 'x' },
+        openclawcity: { accounts: { default: { apiKey: 'old', botId: 'b1' }, other: { apiKey: 'o', botId: 'b2' } } },
+      },
+    };
+    const next = withRefreshedApiKey(cfg, 'default', 'new') as any;
+
+    expect(next.channels.openclawcity.accounts.default).toEqual({ apiKey: 'new', botId: 'b1' });
+    expect(next.channels.openclawcity.accounts.other.apiKey).toBe('o');
+    expect(next.channels.telegram).toEqual({ token: 'x' });
+    expect(next.gateway).toEqual({ port: 1 });
+    // Input is not mutated
+    expect(cfg.channels.openclawcity.accounts.default.apiKey).toBe('old');
+  });
+
+  it('falls back to the flat channel config', () => {
+    const cfg = { channels: { openclawcity: { apiKey: 'old', botId: 'b1' } } };
+    const next = withRefreshedApiKey(cfg, 'default', 'new') as any;
+    expect(next.channels.openclawcity).toEqual({ apiKey: 'new', botId: 'b1' });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorldStateCache } from '../src/world-state.js';
+
+/** A fetcher whose responses the test resolves by hand. */
+function manualFetcher() {
+  const calls: { signal: AbortSignal; resolve: (data: string) => void; reject: (err: Error) => void }[] = [];
+  const fetch = vi.fn((signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    calls.push({ signal, resolve, reject });
+    signal.addEventListener('abort', () => reject(new Error('aborted')));
+  }));
+  return { fetch, calls };
+}
+
+describe('WorldStateCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the first fetch and shares it between concurrent callers', async () => {
+    const { fetch, calls } = manualFetcher();
+    const cache = new WorldStateCache({ fetch });
+
+    const a = cache.get();
+    const b = cache.get();
+    calls[0].resolve('state-1');
+
+    expect(await a).toBe('state-1');
+    expect(await b).toBe('state-1');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves fresh data without refetching', async () => {
+    const fetch = vi.fn().mockResolvedValue('state-1');
+    const cache = new WorldStateCache({ fetch, ttlMs: 1000 });
+
+    await cache.get();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(await cache.get()).toBe('state-1');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes in the background before the TTL runs out', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce('state-1').mockResolvedValueOnce('state-2');
+    const cache = new WorldStateCache({ fetch, ttlMs: 1000 });
+
+    await cache.get();
+    await vi.advanceTimersByTimeAsync(850);
+    // Still answers with the cached value right away
+    expect(await cache.get()).toBe('state-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(await cache.get()).toBe('state-2');
+  });
+
+  it('serves expired data while it revalidates', async () => {
+    const { fetch, calls } = manualFetcher();
+    const cache = new WorldStateCache({ fetch, ttlMs: 1000 });
+
+    const first = cache.get();
+    calls[0].resolve('state-1');
+    await first;
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await cache.get()).toBe('state-1');
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops data on invalidate and ignores responses from before it', async () => {
+    const { fetch, calls } = manualFetcher();
+    const cache = new WorldStateCache({ fetch });
+
+    const stale = cache.get();
+    cache.invalidate('moved');
+    const fresh = cache.get();
+
+    calls[1].resolve('after-move');
+    calls[0].resolve('before-move');
+
+    expect(await fresh).toBe('after-move');
+    await stale;
+    expect(await cache.get()).toBe('after-move');
+  });
+
+  it('gives up after timeoutMs instead of hanging the turn', async () => {
+    const { fetch } = manualFetcher();
+    const cache = new WorldStateCache({ fetch, timeoutMs: 200 });
+
+    const result = cache.get();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(await result).toBeNull();
+    expect(fetch.mock.calls[0][0].aborted).toBe(true);
+  });
+
+  it('keeps serving stale data when a refresh fails', async () => {
+    const fetch = vi.fn().mockResolvedValueOnce('state-1').mockRejectedValueOnce(new Error('503'));
+    const cache = new WorldStateCache({ fetch, ttlMs: 1000 });
+
+    await cache.get();
+    await vi.advanceTimersByTimeAsync(2000);
+    await cache.get();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await cache.get()).toBe('state-1');
+  });
+
+  it('aborts in-flight requests on dispose', async () => {
+    const { fetch, calls } = manualFetcher();
+    const cache = new WorldStateCache({ fetch });
+
+    const result = cache.get();
+    cache.dispose();
+
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(await result).toBeNull();
+  });
+});
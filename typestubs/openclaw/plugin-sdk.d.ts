@@ -57,6 +57,8 @@ export interface MsgContext {
   CommandAuthorized?: boolean;
   OriginatingChannel?: string;
   OriginatingTo?: string;
+  /** Extra context shown to the agent as untrusted data, outside the message body. */
+  UntrustedContext?: string[];
   [key: string]: unknown;
 }
 
@@ -96,6 +98,9 @@ export interface PluginRuntime {
     loadConfig: (...args: unknown[]) => unknown;
     writeConfigFile: (...args: unknown[]) => unknown;
   };
+  state?: {
+    resolveStateDir: (...args: unknown[]) => string;
+  };
   channel: {
     reply: {
       dispatchReplyWithBufferedBlockDispatcher: (params: {
@@ -126,6 +131,25 @@ export interface PluginRuntime {
   [key: string]: unknown;
 }
 
+export type GatewayRequestHandler = (opts: {
+  params: Record<string, unknown>;
+  respond: (ok: boolean, payload?: unknown, error?: { code?: string; message: string }) => void;
+  [key: string]: unknown;
+}) => void | Promise<void>;
+
+export interface AgentToolResult {
+  content: { type: 'text'; text: string }[];
+  [key: string]: unknown;
+}
+
+export interface AgentTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  execute: (toolCallId: string, params: Record<string, unknown>) => Promise<AgentToolResult>;
+  [key: string]: unknown;
+}
+
 export interface OpenClawPluginApi {
   runtime: PluginRuntime;
   logger: {
@@ -135,7 +159,8 @@ export interface OpenClawPluginApi {
     debug?: (...args: unknown[]) => void;
   };
   registerChannel: (opts: { plugin: unknown }) => void;
-  registerGatewayMethod?: (method: string, handler: unknown) => void;
+  registerGatewayMethod?: (method: string, handler: GatewayRequestHandler) => void;
+  registerTool?: (tool: AgentTool, opts?: { optional?: boolean }) => void;
   registerCli?: (handler: unknown, opts?: unknown) => void;
   registerService?: (service: unknown) => void;
 }